@@ -9,7 +9,14 @@ console.log('Starting export script...');
 		await this.app.plugins.enablePlugin('webpage-html-export2-wilson');
 		const plugin = await this.app.plugins.getPlugin('webpage-html-export2-wilson');
 
-		if (process.env.EXPORT_ENTIRE_VAULT) {
+		if (process.env.EXPORT_DRY_RUN) {
+			console.log('Planning export (dry run)...');
+			const plan = await plugin.planExport('/output');
+			console.log(JSON.stringify(plan, null, 2));
+		} else if (process.env.EXPORT_PROFILE) {
+			console.log(`Exporting profile "${process.env.EXPORT_PROFILE}"...`);
+			await plugin.exportProfile(process.env.EXPORT_PROFILE, '/output');
+		} else if (process.env.EXPORT_ENTIRE_VAULT) {
 			console.log('Exporting entire vault...');
 			await plugin.exportVault('/output');
 		} else {
@@ -1,4 +1,4 @@
-let theme = localStorage.getItem("theme") || (window.matchMedia("(prefers-color-scheme: dark)").matches ? "dark" : "light");
+let theme = localStorage.getItem("theme") || document.body.getAttribute("data-default-theme") || (window.matchMedia("(prefers-color-scheme: dark)").matches ? "dark" : "light");
 if (theme == "dark")
 {
 	document.body.classList.add("theme-dark");
@@ -0,0 +1,41 @@
+import { DynamicInsertedFeature } from "src/shared/dynamic-inserted-feature";
+import { LanguageOptions } from "src/shared/features/languages";
+
+interface LanguageSwitcherData {
+	language: string;
+	translations: { [language: string]: string };
+}
+
+export class LanguageSwitcher extends DynamicInsertedFeature<LanguageOptions, LanguageSwitcherData> {
+	constructor(language: string, translations: { [language: string]: string }) {
+		super(ObsidianSite.metadata.featureOptions.languages, {
+			language,
+			translations,
+		});
+	}
+
+	protected generateContent(container: HTMLDivElement) {
+		const deps = this.getDependencies();
+		const options = ObsidianSite.metadata.featureOptions.languages;
+
+		for (const language in deps.translations) {
+			const url = deps.translations[language];
+			const languageEl = document.createElement("a");
+			languageEl.classList.add("language-link");
+			languageEl.href = url;
+			languageEl.hreflang = language;
+			languageEl.lang = language;
+			languageEl.innerText = options.getLanguageName(language);
+			if (language == deps.language) languageEl.classList.add("is-active");
+
+			languageEl.addEventListener("click", (e) => {
+				e.preventDefault();
+				if (language != deps.language) ObsidianSite.loadURL(url);
+			});
+
+			container.appendChild(languageEl);
+		}
+
+		return container;
+	}
+}
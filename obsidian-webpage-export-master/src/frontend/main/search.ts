@@ -55,12 +55,26 @@ export class Search
 		console.log(type & SearchType.Title, type & SearchType.Aliases, type & SearchType.Headers, type & SearchType.Tags, type & SearchType.Path, type & SearchType.Content);
 	
 		
+		// only search pages in the language of the open page, and pages without a language
+		const languageOptions = ObsidianSite.metadata.featureOptions.languages;
+		const language = ObsidianSite.document?.info?.language;
+		let languageFilter: ((result: SearchResult) => boolean) | undefined = undefined;
+		if (languageOptions?.enabled && languageOptions.filterSearch && language)
+		{
+			languageFilter = (result) =>
+			{
+				const resultLanguage = ObsidianSite.getWebpageData(result.path)?.language;
+				return !resultLanguage || resultLanguage == language;
+			};
+		}
+
 		const results: Array<SearchResult> = this.index.search(query, 
 		{ 
 			prefix: true, 
 			fuzzy: 0.2, 
 			boost: { title: 2, aliases: 1.8, headers: 1.5, tags: 1.3, path: 1.1 }, 
-			fields: searchFields 
+			fields: searchFields,
+			filter: languageFilter
 		});
 
 		console.log("Search results", results);
@@ -20,9 +20,11 @@ export class Tags extends DynamicInsertedFeature<
 		for (const tagName of deps.tags) {
 			const tagEl = document.createElement("a");
 			tagEl.classList.add("tag");
+			const tagPage =
+				ObsidianSite.metadata.tagPages?.[tagName.replace("#", "").toLowerCase()];
 			tagEl.setAttribute(
 				"href",
-				`?query=tag:${tagName.replace("#", "")}`
+				tagPage ?? `?query=tag:${tagName.replace("#", "")}`
 			);
 			tagEl.innerText = tagName;
 			container.appendChild(tagEl);
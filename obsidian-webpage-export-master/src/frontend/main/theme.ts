@@ -22,15 +22,19 @@ export class Theme
 
 	public switchTheme()
 	{
-		const current = localStorage.getItem("theme") as ThemeType;
+		// the shown theme may be a page default which was never stored
+		const current = document.body.classList.contains("theme-dark") ? ThemeType.Dark : ThemeType.Light;
 		let opposite = current == ThemeType.Light ? ThemeType.Dark : ThemeType.Light;
 		this.setTheme(opposite, false);
 	}
 
-	public setTheme(theme: ThemeType, instant: boolean = false)
+	/**
+	 * @param persist Remember the theme as picked by the visitor. Defaults of a page are shown without being remembered.
+	 */
+	public setTheme(theme: ThemeType, instant: boolean = false, persist: boolean = true)
 	{
 		let state = theme == ThemeType.Light;
-		this.themeToggle.checked = state;
+		if (this.themeToggle) this.themeToggle.checked = state;
 
 		let oldTransition = "";
 		if (instant) 
@@ -39,11 +43,12 @@ export class Theme
 			document.body.style.transition = "none";
 		}
 
-		if(!this.themeToggle.classList.contains("is-checked") && state)
+		// the toggle is missing when the theme toggle feature is disabled
+		if(this.themeToggle && !this.themeToggle.classList.contains("is-checked") && state)
 		{
 			this.themeToggle.classList.add("is-checked");
 		}
-		else if (this.themeToggle.classList.contains("is-checked") && !state)
+		else if (this.themeToggle && this.themeToggle.classList.contains("is-checked") && !state)
 		{
 			this.themeToggle.classList.remove("is-checked");
 		}
@@ -81,6 +86,6 @@ export class Theme
 			}, 100);
 		}
 
-		localStorage.setItem("theme", state ? "light" : "dark");
+		if (persist) localStorage.setItem("theme", state ? "light" : "dark");
 	}
 }
@@ -220,6 +220,31 @@ export class TreeItem
 		}
 	}
 
+	/**
+	 * Hides the pages of other languages than the given one, and the folders left without a shown page.
+	 * Pages without a language are always shown.
+	 * @returns Whether this item is still shown.
+	 */
+	public filterLanguage(language: string | undefined): boolean
+	{
+		let shown = false;
+		if (this.isFolder || this.children.length > 0)
+		{
+			for (const child of this.children)
+			{
+				if (child.filterLanguage(language)) shown = true;
+			}
+		}
+		else
+		{
+			const itemLanguage = ObsidianSite.getWebpageData(this.path)?.language;
+			shown = !language || !itemLanguage || itemLanguage == language;
+		}
+
+		this.itemEl.classList.toggle("is-other-language", !shown);
+		return shown;
+	}
+
 	public filter(paths: string[])
 	{
 		this.overrideAnimationLength(0);
@@ -6,13 +6,14 @@ import { WebpageDocument as ObsidianDocument } from "./document";
 import {
 	DocumentType,
 	FileData,
+	PageOverrides,
 	WebpageData,
 	WebsiteData,
 	WebsiteOptions,
 } from "src/shared/website-data";
 import { GraphView } from "./graph-view";
 import { Notice } from "./notifications";
-import { Theme } from "./theme";
+import { Theme, ThemeType } from "./theme";
 import { LinkHandler } from "./links";
 import { Shared } from "src/shared/shared";
 import { FilePreviewPopover } from "./link-preview";
@@ -26,6 +27,7 @@ import {
 import { BacklinkList } from "./backlinks";
 import { Tags } from "./tags";
 import { Aliases } from "./aliases";
+import { LanguageSwitcher } from "./languages";
 
 type Constructor<T> = new () => T;
 
@@ -62,6 +64,7 @@ export class ObsidianWebsite {
 	public backlinkList: BacklinkList | undefined = undefined;
 	public tags: Tags | undefined = undefined;
 	public aliases: Aliases | undefined = undefined;
+	public languageSwitcher: LanguageSwitcher | undefined = undefined;
 
 	public entryPage: string;
 
@@ -167,6 +170,7 @@ export class ObsidianWebsite {
 					doc.isMainDocument &&
 					!ObsidianSite.metadata.ignoreMetadata &&
 					ObsidianSite.metadata.featureOptions.backlinks.enabled &&
+					doc.info?.overrides?.backlinks !== false &&
 					doc.documentType == DocumentType.Markdown;
 				const insertTags =
 					doc.isMainDocument &&
@@ -257,6 +261,38 @@ export class ObsidianWebsite {
 				} else {
 					this.aliases?.hide();
 				}
+
+				// ------------------ LANGUAGES -----------------
+				const languageOptions = ObsidianSite.metadata.featureOptions.languages;
+				if (doc.isMainDocument && languageOptions?.enabled) {
+					const language = doc.info?.language;
+					const translations = doc.info?.translations ?? {};
+					if (language) document.documentElement.lang = language;
+
+					if (!this.languageSwitcher) {
+						this.languageSwitcher = new LanguageSwitcher(language ?? "", translations);
+					} else {
+						this.languageSwitcher?.modifyDependencies((d) => {
+							d.language = language ?? "";
+							d.translations = translations;
+						});
+					}
+
+					if (Object.keys(translations).length == 0) {
+						this.languageSwitcher?.hide();
+					} else {
+						this.languageSwitcher?.show();
+					}
+
+					if (languageOptions.filterFileTree) {
+						this.fileTree?.filterLanguage(language);
+					}
+				}
+
+				// ------------------ PAGE OVERRIDES -----------------
+				if (doc.isMainDocument) {
+					this.applyPageOverrides(doc.info?.overrides ?? {});
+				}
 			}
 		});
 
@@ -304,7 +340,41 @@ export class ObsidianWebsite {
 		meta.setAttribute('content', content);
 	}
 
+	/**
+	 * Applies the options the current page overrides through its frontmatter, and resets those of the previous page.
+	 */
+	private applyPageOverrides(overrides: PageOverrides) {
+		const setHidden = (el: HTMLElement | null | undefined, hidden: boolean) => {
+			if (el) el.style.display = hidden ? "none" : "";
+		};
+
+		setHidden(this.leftSidebar?.containerEl, overrides.hideLeftSidebar === true);
+		setHidden(this.rightSidebar?.containerEl, overrides.hideRightSidebar === true);
+		setHidden(document.querySelector("#graph-view") as HTMLElement, overrides.graphView === false);
+		setHidden(document.querySelector("#outline") as HTMLElement, overrides.outline === false);
+
+		for (const property of ["--line-width", "--line-width-adaptive", "--file-line-width"]) {
+			if (overrides.documentWidth) document.body.style.setProperty(property, overrides.documentWidth);
+			else document.body.style.removeProperty(property);
+		}
+
+		// the layout only adds a class to style the page with, like the other body classes
+		for (const cls of Array.from(document.body.classList)) {
+			if (cls.startsWith("layout-")) document.body.classList.remove(cls);
+		}
+		if (overrides.layout) document.body.classList.add("layout-" + overrides.layout);
+
+		// the page theme is only a default, a theme picked by the visitor wins
+		if (!localStorage.getItem("theme")) {
+			const systemTheme = window.matchMedia("(prefers-color-scheme: dark)").matches ? ThemeType.Dark : ThemeType.Light;
+			this.theme.setTheme((overrides.theme as ThemeType) ?? systemTheme, true, false);
+		}
+	}
+
 	private updateTopbarTitle(title: string) {
+		// the title placed by a layout template
+		document.querySelectorAll(".layout-page-title").forEach((titleEl) => titleEl.textContent = title);
+
 		if (!this.topbarTitleEl) return;
 		this.topbarTitleEl.textContent = title;
 		this.topbarTitleEl.setAttribute("title", title);
@@ -314,6 +384,7 @@ export class ObsidianWebsite {
 		const header = LinkHandler.getHashFromURL(url);
 		const query = LinkHandler.getQueryFromURL(url);
 		url = LinkHandler.getPathnameFromURL(url);
+		url = this.metadata?.redirects?.[url] ?? url;
 		console.log("Loading URL", url, header, query);
 
 		if (query && query.startsWith("query=")) {
@@ -360,6 +431,10 @@ export class ObsidianWebsite {
 		this.updateMetaTag("og:title", page.title);
 		this.updateMetaTag("og:description", page.info?.description || "");
 		this.updateMetaTag("og:url", window.location.href);
+		const canonical = document.querySelector('link[rel="canonical"]');
+		if (canonical && this.metadata?.baseURL) {
+			canonical.setAttribute("href", new URL(page.pathname, this.metadata.baseURL.replace(/\/?$/, "/")).href);
+		}
 		this.updateMetaTag("og:image", page.info?.coverImageURL || "");
 
 		// Update graph view and file tree
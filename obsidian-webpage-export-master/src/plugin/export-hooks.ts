@@ -0,0 +1,111 @@
+import { TFile } from "obsidian";
+import { Attachment } from "src/plugin/utils/downloadable";
+import { ExportLog } from "src/plugin/render-api/render-api";
+import { Webpage } from "src/plugin/website/webpage";
+import { Website } from "src/plugin/website/website";
+import { WebsiteExportPipeline } from "src/plugin/website/export-pipeline";
+
+type HookResult = boolean | void | Promise<boolean | void>;
+
+/**
+ * The points of an export other plugins and scripts can hook into.
+ * Hooks which can veto leave the file out of the export when any callback returns false.
+ */
+export interface ExportHookMap
+{
+	/**
+	 * Called before a pipeline loads its website, to register features, assets and attachments with it.
+	 */
+	configurePipeline: (pipeline: WebsiteExportPipeline) => void | Promise<void>;
+
+	/**
+	 * Called for every file picked for the export, before the website loads it.
+	 * Return false to leave the file out of the export.
+	 */
+	filterFile: (file: TFile, website: Website) => HookResult;
+
+	/**
+	 * Called after the website created its webpages and attachments, before anything is rendered.
+	 * Files can be added here with `website.index.addFile`.
+	 */
+	websiteLoaded: (website: Website) => void | Promise<void>;
+
+	/**
+	 * Called after a note was rendered into its page, before its links are remapped and the page is built.
+	 * Return false to leave the page out of the export.
+	 */
+	documentRendered: (webpage: Webpage) => HookResult;
+
+	/**
+	 * Called after a page was built, before its html is generated, so `webpage.pageDocument` can still be changed
+	 * and features inserted into it. Return false to leave the page out of the export.
+	 */
+	webpageBuilt: (webpage: Webpage) => HookResult;
+
+	/**
+	 * Called after every page was built, before the index and the website metadata are finalized.
+	 * Files can be added here with `website.index.addFile`.
+	 */
+	beforeFinalize: (website: Website) => void | Promise<void>;
+
+	/**
+	 * Called before a file or page is written to the export folder or added to the zip archive. Return false to not write it.
+	 */
+	beforeDownload: (file: Attachment) => HookResult;
+}
+
+export type ExportHookName = keyof ExportHookMap;
+
+/**
+ * Lets other plugins and user scripts take part in an export, through `window.WebpageHTMLExport.hooks`:
+ * ```js
+ * const off = window.WebpageHTMLExport.hooks.on("webpageBuilt", (webpage) => { ... });
+ * ```
+ * Callbacks run in the order they were added and may be async. A callback which throws is reported in the export log
+ * and the export goes on as if it had not been called.
+ */
+export class ExportHooks
+{
+	private static callbacks: {[name in ExportHookName]?: ExportHookMap[name][]} = {};
+
+	/**
+	 * Adds a callback to a hook.
+	 * @returns A function which removes the callback again, call it when your plugin unloads.
+	 */
+	public static on<K extends ExportHookName>(name: K, callback: ExportHookMap[K]): () => void
+	{
+		const callbacks = (this.callbacks[name] ??= []) as ExportHookMap[K][];
+		callbacks.push(callback);
+		return () => this.off(name, callback);
+	}
+
+	public static off<K extends ExportHookName>(name: K, callback: ExportHookMap[K])
+	{
+		(this.callbacks[name] as ExportHookMap[K][] | undefined)?.remove(callback);
+	}
+
+	/**
+	 * Runs every callback of a hook.
+	 * @returns false if any callback vetoed, true otherwise.
+	 */
+	public static async trigger<K extends ExportHookName>(name: K, ...args: Parameters<ExportHookMap[K]>): Promise<boolean>
+	{
+		const callbacks = this.callbacks[name] as ((...args: Parameters<ExportHookMap[K]>) => HookResult)[] | undefined;
+		if (!callbacks || callbacks.length == 0) return true;
+
+		let allowed = true;
+		for (const callback of [...callbacks])
+		{
+			try
+			{
+				if (await callback(...args) === false) allowed = false;
+			}
+			catch (error)
+			{
+				ExportLog.error(error, `Export hook "${name}" failed`);
+			}
+		}
+
+		return allowed;
+	}
+}
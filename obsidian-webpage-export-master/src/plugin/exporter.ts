@@ -6,9 +6,71 @@ import { Website } from "src/plugin/website/website";
 import { ExportLog, MarkdownRendererAPI } from "src/plugin/render-api/render-api";
 import { ExportInfo, ExportModal } from "src/plugin/settings/export-modal";
 import { Webpage } from "./website/webpage";
+import { AssetHandler } from "./asset-loaders/asset-handler";
+import { ExportPlanModal } from "./settings/export-plan-modal";
+import { Redirects } from "./website/redirects";
+import { Attachment } from "./utils/downloadable";
+import { PreviewServer } from "./preview-server";
+import { WebsiteExportPipeline } from "./website/export-pipeline";
+
+/**
+ * What an export would change in the destination folder, computed without writing anything.
+ */
+export interface ExportPlan
+{
+	destination: string;
+	newFiles: string[];
+	updatedFiles: string[];
+	unchangedFiles: string[];
+	deletedFiles: string[];
+}
 
 export class HTMLExporter
 {
+	/**
+	 * The export which is running. Exports share the renderer's batch and render leaves, so only one may run at a time.
+	 */
+	private static exporting: Promise<unknown> | undefined = undefined;
+
+	public static get isExporting(): boolean
+	{
+		return HTMLExporter.exporting != undefined;
+	}
+
+	/**
+	 * Resolves once no export is running.
+	 */
+	public static async whenIdle(): Promise<void>
+	{
+		while (HTMLExporter.exporting)
+		{
+			await HTMLExporter.exporting.catch(() => undefined);
+		}
+	}
+
+	/**
+	 * Runs the export unless another one is running, which is reported instead.
+	 */
+	private static async runExclusive<T>(task: () => Promise<T>): Promise<T | undefined>
+	{
+		if (HTMLExporter.exporting)
+		{
+			new Notice("❌ Another export is running, please wait until it has finished.", 5000);
+			return undefined;
+		}
+
+		const running = task();
+		HTMLExporter.exporting = running;
+		try
+		{
+			return await running;
+		}
+		finally
+		{
+			HTMLExporter.exporting = undefined;
+		}
+	}
+
 	static async updateSettings(usePreviousSettings: boolean = false, overrideFiles: TFile[] | undefined = undefined, overrideExportPath: Path | undefined = undefined): Promise<ExportInfo | undefined>
 	{
 		if (!usePreviousSettings) 
@@ -32,7 +94,12 @@ export class HTMLExporter
 		return undefined;
 	}
 
-	public static async export(usePreviousSettings: boolean = true, overrideFiles: TFile[] | undefined = undefined, overrideExportPath: Path | undefined = undefined)
+	public static async export(usePreviousSettings: boolean = true, overrideFiles: TFile[] | undefined = undefined, overrideExportPath: Path | undefined = undefined, dryRun: boolean = false)
+	{
+		await HTMLExporter.runExclusive(() => HTMLExporter.exportWithSettings(usePreviousSettings, overrideFiles, overrideExportPath, dryRun));
+	}
+
+	private static async exportWithSettings(usePreviousSettings: boolean, overrideFiles: TFile[] | undefined, overrideExportPath: Path | undefined, dryRun: boolean)
 	{
 		const info = await this.updateSettings(usePreviousSettings, overrideFiles, overrideExportPath);
 		if ((!info && !usePreviousSettings) || (info && info.canceled)) return;
@@ -40,27 +107,73 @@ export class HTMLExporter
 		const files = info?.pickedFiles ?? overrideFiles ?? Settings.getFilesToExport();
 		const exportPath = overrideExportPath ?? info?.exportPath ?? new Path(Settings.exportOptions.exportPath);
 
-		const website = await HTMLExporter.exportFiles(files, exportPath, true, Settings.deleteOldFiles);
+		if (dryRun || info?.dryRun)
+		{
+			const plan = await HTMLExporter.planExport(files, exportPath, Settings.deleteOldFiles);
+			if (plan) new ExportPlanModal(plan).open();
+			return;
+		}
+
+		const website = await HTMLExporter.buildAndSave(files, exportPath, true, Settings.deleteOldFiles);
 
 		if (!website) return;
-		if (Settings.openAfterExport) Utils.openPath(exportPath);
+		// a site in the preview server reloads by itself
+		if (Settings.openAfterExport && !PreviewServer.isServing(exportPath)) Utils.openPath(exportPath);
 		new Notice("✅ Finished HTML Export:\n\n" + exportPath, 5000);
 	}
 
+	/**
+	 * Exports using the settings, files and destination of a saved profile.
+	 * The previously active profile is restored afterwards.
+	 */
+	public static async exportProfile(profileName: string, overrideExportPath: Path | undefined = undefined)
+	{
+		await HTMLExporter.runExclusive(() => HTMLExporter.exportWithProfile(profileName, overrideExportPath));
+	}
+
+	private static async exportWithProfile(profileName: string, overrideExportPath: Path | undefined)
+	{
+		const previousProfile = Settings.activeProfile;
+		if (!await Settings.setActiveProfile(profileName))
+		{
+			new Notice("❌ No export profile named: " + profileName, 5000);
+			ExportLog.error("No export profile named: " + profileName, "Export Failed");
+			return;
+		}
+
+		try
+		{
+			await HTMLExporter.exportWithSettings(true, undefined, overrideExportPath, false);
+		}
+		finally
+		{
+			await Settings.setActiveProfile(previousProfile);
+		}
+	}
+
 	public static async exportFiles(files: TFile[], destination: Path, saveFiles: boolean, deleteOld: boolean) : Promise<Website | undefined>
 	{
-		MarkdownRendererAPI.beginBatch();
+		return await HTMLExporter.runExclusive(() => HTMLExporter.buildAndSave(files, destination, saveFiles, deleteOld));
+	}
+
+	private static async buildAndSave(files: TFile[], destination: Path, saveFiles: boolean, deleteOld: boolean) : Promise<Website | undefined>
+	{
+		MarkdownRendererAPI.beginBatch(Settings.exportOptions);
 		let website = undefined;
+		let loadedWebsite: Website | undefined = undefined;
 		try
 		{
-			website = await (await new Website(destination).load(files)).build();
+			loadedWebsite = await WebsiteExportPipeline.createDefault(Settings.exportOptions, files).load(destination);
+			website = await loadedWebsite.build();
 
 			if (!website)
 			{
 				new Notice("❌ Export Cancelled", 5000);
+				await HTMLExporter.saveCancelledReport(loadedWebsite);
 				return;
 			}
 
+			const deletedFiles: string[] = [];
 			if (deleteOld)
 			{
 				let i = 0;
@@ -69,15 +182,14 @@ export class HTMLExporter
 				{
 					const path = new Path(dFile, destination.path);
 					
-					// don't delete font files
-					// this is a hacky way to prevent it from deleting the matjax and other font files used in only certain files
-					if (path.extension == "woff" || path.extension == "woff2" || path.extension == "ttf" || path.extension == "otf")
+					if (HTMLExporter.keepWhenDeleting(path))
 					{
 						ExportLog.progress(0.5, "Deleting Old Files", "Skipping: " + path.path, "var(--color-yellow)");
 						continue;
 					}
 
 					await path.delete();
+					deletedFiles.push(dFile);
 					ExportLog.progress(0.5, "Deleting Old Files", "Deleting: " + path.path, "var(--color-red)");
 					i++;
 				};
@@ -85,7 +197,25 @@ export class HTMLExporter
 				await Path.removeEmptyDirectories(destination.path);
 			}
 			
-			if (saveFiles) 
+			if (saveFiles && Settings.exportOptions.zipOutput)
+			{
+				const extraFiles: Attachment[] = [];
+				if (!Settings.exportOptions.combineAsSingleFile && Settings.exportPreset != ExportPreset.RawDocuments)
+				{
+					extraFiles.push(website.index.websiteDataAttachment(), website.index.indexDataAttachment());
+				}
+
+				if (Settings.exportOptions.buildReport)
+				{
+					website.report.generate(deletedFiles);
+					extraFiles.push(website.report.jsonAttachment());
+					if (Settings.exportOptions.buildReportHTML) extraFiles.push(website.report.htmlAttachment());
+				}
+
+				const zipPath = await website.saveAsZip(extraFiles);
+				ExportLog.log(zipPath.path, "Saved zip archive");
+			}
+			else if (saveFiles) 
 			{
 				if (Settings.exportOptions.combineAsSingleFile)
 				{
@@ -101,13 +231,35 @@ export class HTMLExporter
 						await Utils.downloadAttachments([website.index.websiteDataAttachment()]);
 						await Utils.downloadAttachments([website.index.indexDataAttachment()]);
 					}
+
+					if (Redirects.isEnabled(Settings.exportOptions) && Settings.exportOptions.redirectsFile)
+					{
+						await Redirects.writeRedirectsFile(website);
+					}
+
+					// the pages are at their current paths now, so earlier renames are not needed for the next export
+					await Redirects.clearRenamedFiles(destination);
+				}
+
+				if (Settings.exportOptions.buildReport)
+				{
+					website.report.generate(deletedFiles);
+					await HTMLExporter.saveReport(website);
 				}
+
+				if (PreviewServer.isServing(destination)) PreviewServer.reload();
 			}
 		}
 		catch (e)
 		{
 			new Notice("❌ Export Failed: " + e, 5000);
 			ExportLog.error(e, "Export Failed", true);
+			await HTMLExporter.saveCancelledReport(loadedWebsite);
+			website = undefined;
+		}
+		finally
+		{
+			loadedWebsite?.report.end();
 		}
 
 		MarkdownRendererAPI.endBatch();
@@ -115,6 +267,81 @@ export class HTMLExporter
 		return website;
 	}
 
+	private static async saveReport(website: Website)
+	{
+		await Utils.downloadAttachments([website.report.jsonAttachment()]);
+		if (Settings.exportOptions.buildReportHTML) 
+			await Utils.downloadAttachments([website.report.htmlAttachment()]);
+	}
+
+	/**
+	 * Saves the report of an export which was cancelled or failed before it finished, marked as cancelled.
+	 */
+	private static async saveCancelledReport(website: Website | undefined)
+	{
+		if (!website || !Settings.exportOptions.buildReport) return;
+
+		try
+		{
+			website.report.generate([], true);
+			await HTMLExporter.saveReport(website);
+		}
+		catch (e)
+		{
+			ExportLog.error(e, "Problem saving the build report");
+		}
+	}
+
+	/**
+	 * Font files are never deleted.
+	 * This is a hacky way to prevent it from deleting the mathjax and other font files used in only certain files.
+	 */
+	public static keepWhenDeleting(path: Path): boolean
+	{
+		return ["woff", "woff2", "ttf", "otf"].contains(path.extension);
+	}
+
+	/**
+	 * Computes which files an export to the destination would create, update and delete, without rendering or writing anything.
+	 * Attachments are only discovered while rendering, so the attachments of changed pages are assumed to be kept.
+	 */
+	public static async planExport(files: TFile[], destination: Path, deleteOld: boolean) : Promise<ExportPlan | undefined>
+	{
+		try
+		{
+			const website = await WebsiteExportPipeline.createDefault(Settings.exportOptions, files).load(destination);
+			const index = website.index;
+			await index.addFiles(AssetHandler.getDownloads(destination, website.exportOptions));
+
+			const changed = index.newFiles.concat(index.updatedFiles);
+			for (const file of changed)
+			{
+				const oldWebpage = index.getOldWebpage(file.targetPath.path);
+				for (const attachment of oldWebpage?.attachments ?? [])
+				{
+					index.deletedFiles.remove(attachment);
+				}
+			}
+
+			const changedSet = new Set(changed);
+			const deletedFiles = deleteOld ? index.deletedFiles.filter((file) => !HTMLExporter.keepWhenDeleting(new Path(file, destination.path))) : [];
+
+			return {
+				destination: destination.path,
+				newFiles: index.newFiles.map((file) => file.targetPath.path),
+				updatedFiles: index.updatedFiles.map((file) => file.targetPath.path),
+				unchangedFiles: index.allFiles.filter((file) => !changedSet.has(file)).map((file) => file.targetPath.path),
+				deletedFiles: deletedFiles,
+			};
+		}
+		catch (e)
+		{
+			new Notice("❌ Export Preview Failed: " + e, 5000);
+			ExportLog.error(e, "Export Preview Failed");
+			return undefined;
+		}
+	}
+
 	public static async exportFolder(folder: TFolder, rootExportPath: Path, saveFiles: boolean, clearDirectory: boolean) : Promise<Website | undefined>
 	{
 		const folderPath = new Path(folder.path);
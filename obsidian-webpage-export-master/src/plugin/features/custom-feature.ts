@@ -0,0 +1,47 @@
+import { getFrontMatterInfo } from "obsidian";
+import { CustomFeatureOptions } from "src/shared/features/custom-feature";
+import { ExportLog, MarkdownRendererAPI } from "src/plugin/render-api/render-api";
+import { Path } from "src/plugin/utils/path";
+import { FeatureGenerator } from "./feature-generator";
+
+/**
+ * Builds a user defined feature from its .html or .md source file, with the same structure as the built in features.
+ */
+export class CustomFeature implements FeatureGenerator
+{
+	public async generate(container?: HTMLElement, featureOptions?: CustomFeatureOptions): Promise<HTMLElement>
+	{
+		container = container ?? document.body;
+		const featureId = featureOptions?.featureId ?? "custom-feature";
+		const featureEl = container.createDiv({ cls: "feature custom-feature", attr: { id: featureId } });
+
+		if (featureOptions?.displayTitle)
+		{
+			const header = featureEl.createDiv({ cls: "feature-header" });
+			header.createDiv({ cls: "feature-title", text: featureOptions.displayTitle });
+		}
+
+		const contentEl = featureEl.createDiv({ cls: `${featureId}-content` });
+		const sourcePath = new Path(featureOptions?.sourcePath ?? "");
+		if (sourcePath.isEmpty) return featureEl;
+
+		const content = await sourcePath.readAsString();
+		if (content == undefined)
+		{
+			ExportLog.error("Could not read the source file of custom feature " + featureId + ": " + sourcePath.path);
+			return featureEl;
+		}
+
+		if (sourcePath.extensionName == "md")
+		{
+			const markdown = content.substring(getFrontMatterInfo(content).contentStart);
+			await MarkdownRendererAPI.renderMarkdownSimpleEl(markdown, contentEl);
+		}
+		else
+		{
+			contentEl.innerHTML = content;
+		}
+
+		return featureEl;
+	}
+}
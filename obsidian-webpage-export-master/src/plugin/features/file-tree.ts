@@ -24,6 +24,12 @@ export class FileTree extends Tree
     /** Map from source vault path to FileTreeItem for quick lookup */
     public pathToItem: Map<string, FileTreeItem> = new Map();
 
+    /** Map from source path to output path for files which set their own output path, like notes with a permalink */
+    public targetPathOverrides: Map<string, string> = new Map();
+
+    /** Map from source folder path to the output path of the folder's page, folders without one are not links */
+    public folderTargetPaths: Map<string, string> = new Map();
+
 
 	public constructor(files: Path[], keepOriginalExtensions: boolean = false, sort = true)
 	{
@@ -94,6 +100,7 @@ export class FileTree extends Tree
                             child.title = tfolder.name; // Use actual folder name
 							child.icon = (await _MarkdownRendererInternal.getIconForFile(tfolder)).icon;
 						}
+						child.href = this.folderTargetPaths.get(section.path);
 					}
                     
 					currentParentNode.children.push(child);
@@ -125,7 +132,7 @@ export class FileTree extends Tree
 						currentParentNode.icon = (await _MarkdownRendererInternal.getIconForFile(tfile)).icon;
 					}
 				}
-				currentParentNode.href = targetPath.path; // This is the output href
+				currentParentNode.href = this.targetPathOverrides.get(file.path) ?? targetPath.path; // This is the output href
 			}
 		}
 
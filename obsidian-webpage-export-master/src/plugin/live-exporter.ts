@@ -0,0 +1,167 @@
+import { Notice, Plugin } from "obsidian";
+import path from "path";
+import { Path } from "src/plugin/utils/path";
+import { Settings } from "src/plugin/settings/settings";
+import { ExportLog } from "src/plugin/render-api/render-api";
+import { HTMLExporter } from "./exporter";
+import { i18n } from "./translations/language";
+
+/**
+ * Re-exports the site into the configured destination whenever exported files change while live export is enabled.
+ * Changes are collected and debounced, then an incremental export runs over all files to export,
+ * which only renders the changed files and the pages depending on them and keeps metadata.json and search-index.json consistent.
+ */
+export class LiveExporter
+{
+	private static changedPaths: Set<string> = new Set();
+	private static exportedPaths: Set<string> = new Set();
+	private static timeout: number | undefined = undefined;
+
+	/**
+	 * Subscribes to vault changes. Events are ignored while live export is disabled.
+	 */
+	public static initialize(plugin: Plugin)
+	{
+		// the vault fires create for every file while loading, so only listen once the layout is ready
+		app.workspace.onLayoutReady(() =>
+		{
+			plugin.registerEvent(app.vault.on("modify", (file) => this.onChange(file.path)));
+			plugin.registerEvent(app.vault.on("create", (file) => this.onChange(file.path)));
+			plugin.registerEvent(app.vault.on("delete", (file) => this.onChange(file.path)));
+			plugin.registerEvent(app.vault.on("rename", (file, oldPath) =>
+			{
+				this.onChange(oldPath);
+				this.onChange(file.path);
+			}));
+
+			if (Settings.liveExport) this.start();
+		});
+
+		plugin.register(() => this.stop());
+	}
+
+	public static setEnabled(enabled: boolean)
+	{
+		Settings.liveExport = enabled;
+		if (enabled) this.start();
+		else this.stop();
+	}
+
+	private static start()
+	{
+		this.exportedPaths = new Set(Settings.getFilesToExport().map((file) => file.path));
+		this.changedPaths.clear();
+	}
+
+	private static stop()
+	{
+		window.clearTimeout(this.timeout);
+		this.timeout = undefined;
+		this.changedPaths.clear();
+	}
+
+	private static onChange(filePath: string)
+	{
+		if (!Settings.liveExport) return;
+		if (this.isInDestination(filePath)) return;
+
+		this.changedPaths.add(filePath);
+		this.schedule();
+	}
+
+	private static schedule()
+	{
+		window.clearTimeout(this.timeout);
+		const delay = Math.max(0, Settings.liveExportDelay) * 1000;
+		this.timeout = window.setTimeout(() => this.flush(), delay);
+	}
+
+	/**
+	 * When exporting into a folder inside the vault the written files would trigger another export.
+	 */
+	private static isInDestination(filePath: string): boolean
+	{
+		if (Settings.exportOptions.exportPath == "") return false;
+
+		try
+		{
+			const relative = path.relative(Path.vaultPath.path, Settings.exportOptions.exportPath).replaceAll("\\", "/");
+			if (relative == "") return true;
+			if (relative.startsWith("..") || path.isAbsolute(relative)) return false;
+			return filePath == relative || filePath.startsWith(relative + "/");
+		}
+		catch
+		{
+			return false;
+		}
+	}
+
+	/**
+	 * A change affects the export if the file is exported, was exported before, or is linked or embedded by an exported file.
+	 */
+	private static affectsExport(changed: string[], exported: Set<string>): boolean
+	{
+		for (const changedPath of changed)
+		{
+			if (exported.has(changedPath) || this.exportedPaths.has(changedPath)) return true;
+		}
+
+		const resolvedLinks = app.metadataCache.resolvedLinks;
+		const unresolvedLinks = app.metadataCache.unresolvedLinks;
+		for (const exportedPath of exported)
+		{
+			for (const changedPath of changed)
+			{
+				if (resolvedLinks[exportedPath]?.[changedPath] != undefined) return true;
+				if (unresolvedLinks[exportedPath]?.[new Path(changedPath).basename] != undefined) return true;
+			}
+		}
+
+		return false;
+	}
+
+	private static async flush()
+	{
+		this.timeout = undefined;
+		if (!Settings.liveExport || this.changedPaths.size == 0) return;
+
+		// changes made during any export are picked up once it has finished
+		if (HTMLExporter.isExporting)
+		{
+			HTMLExporter.whenIdle().then(() => this.schedule());
+			return;
+		}
+
+		const changed = Array.from(this.changedPaths);
+		this.changedPaths.clear();
+
+		const files = Settings.getFilesToExport();
+		const exported = new Set(files.map((file) => file.path));
+		if (!this.affectsExport(changed, exported))
+		{
+			this.exportedPaths = exported;
+			return;
+		}
+
+		const destination = new Path(Settings.exportOptions.exportPath);
+		if (!destination.exists || !destination.isAbsolute || !destination.isDirectory)
+		{
+			new Notice(i18n.liveExport.invalidDestination, 5000);
+			ExportLog.warning("The export path does not exist: " + destination.path, "Live export skipped");
+			return;
+		}
+
+		try
+		{
+			ExportLog.log(changed.join("\n"), "Live export of changed files");
+			await HTMLExporter.exportFiles(files, destination, true, Settings.deleteOldFiles);
+			this.exportedPaths = exported;
+		}
+		catch (e)
+		{
+			ExportLog.error(e, "Live export failed");
+		}
+
+		if (this.changedPaths.size > 0) this.schedule();
+	}
+}
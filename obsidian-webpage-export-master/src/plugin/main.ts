@@ -11,6 +11,10 @@ import { _MarkdownRendererInternal, ExportLog, MarkdownRendererAPI } from 'src/p
 import { DataviewRenderer } from './render-api/dataview-renderer';
 import { Website } from './website/website';
 import { i18n } from './translations/language';
+import { LiveExporter } from './live-exporter';
+import { PreviewServer } from './preview-server';
+import { ExportHooks } from './export-hooks';
+import { WebsiteExportPipeline } from './website/export-pipeline';
 
 
 
@@ -34,6 +38,8 @@ export default class HTMLExportPlugin extends Plugin {
 	public Path = Path;
 	public dv = DataviewRenderer;
 	public Website = Website;
+	public WebsiteExportPipeline = WebsiteExportPipeline;
+	public hooks = ExportHooks;
 
 	public async exportDocker() {
 		await HTMLExporter.export(true, undefined, new Path("/output"));
@@ -43,6 +49,48 @@ export default class HTMLExportPlugin extends Plugin {
 		await HTMLExporter.exportVault(new Path(path), true, false);
 	}
 
+	public async planExport(path?: string) {
+		const exportPath = path ? new Path(path) : new Path(Settings.exportOptions.exportPath);
+		return await HTMLExporter.planExport(Settings.getFilesToExport(), exportPath, Settings.deleteOldFiles);
+	}
+
+	public async exportProfile(name: string, path?: string) {
+		await HTMLExporter.exportProfile(name, path ? new Path(path) : undefined);
+	}
+
+	private profileCommandIds: string[] = [];
+
+	/**
+	 * Registers one export command per saved profile, replacing the commands of deleted profiles.
+	 */
+	public updateProfileCommands() {
+		for (const id of this.profileCommandIds) {
+			// @ts-ignore
+			this.app.commands.removeCommand(`${this.manifest.id}:${id}`);
+		}
+		this.profileCommandIds = [];
+
+		const commandProfiles = new Map<string, string>();
+		for (const profile of Settings.exportProfiles) {
+			const id = "export-html-profile-" + Path.slugify(profile.name);
+			const owner = commandProfiles.get(id);
+			if (owner) {
+				new Notice(i18n.exportModal.profile.duplicateCommand.format(owner, profile.name), 10000);
+				continue;
+			}
+			commandProfiles.set(id, profile.name);
+			this.profileCommandIds.push(id);
+
+			this.addCommand({
+				id: id,
+				name: `Export profile "${profile.name}" using its settings`,
+				callback: () => {
+					HTMLExporter.exportProfile(profile.name);
+				},
+			});
+		}
+	}
+
 	async onload() {
 		console.log("Loading webpage-html-export2-wilson plugin");
 		try {
@@ -67,6 +115,10 @@ export default class HTMLExportPlugin extends Plugin {
 				this.app.vault.on("rename", SettingsPage.renameFile)
 			);
 
+			// re-export changed files while live export is enabled
+			LiveExporter.initialize(this);
+			this.register(() => PreviewServer.stop());
+
 			this.addCommand({
 				id: "export-html-vault",
 				name: "Export using previous settings",
@@ -75,6 +127,41 @@ export default class HTMLExportPlugin extends Plugin {
 				},
 			});
 
+			this.addCommand({
+				id: "export-html-dry-run",
+				name: "Preview export using previous settings (dry run)",
+				callback: () => {
+					HTMLExporter.export(true, undefined, undefined, true);
+				},
+			});
+
+			this.addCommand({
+				id: "toggle-live-export",
+				name: "Toggle live export",
+				callback: async () => {
+					LiveExporter.setEnabled(!Settings.liveExport);
+					await SettingsPage.saveSettings();
+					new Notice(Settings.liveExport ? i18n.liveExport.enabled : i18n.liveExport.disabled, 3000);
+				},
+			});
+
+			this.addCommand({
+				id: "preview-export",
+				name: "Preview the exported site in the browser",
+				callback: () => {
+					PreviewServer.start(new Path(Settings.exportOptions.exportPath));
+				},
+			});
+
+			this.addCommand({
+				id: "stop-preview-server",
+				name: "Stop the preview server",
+				callback: () => {
+					PreviewServer.stop();
+					new Notice(i18n.previewServer.stopped, 3000);
+				},
+			});
+
 			this.addCommand({
 				id: "export-html-current",
 				name: "Export only current file using previous settings",
@@ -98,6 +185,8 @@ export default class HTMLExportPlugin extends Plugin {
 				},
 			});
 
+			this.updateProfileCommands();
+
 			this.registerEvent(
 				this.app.workspace.on("file-menu", (menu, file) => {
 					menu.addItem((item) => {
@@ -0,0 +1,161 @@
+import { Notice } from "obsidian";
+import http from "http";
+import path from "path";
+import { promises as fs } from "fs";
+import mime from "mime";
+import { Path } from "src/plugin/utils/path";
+import { Settings } from "src/plugin/settings/settings";
+import { ExportLog } from "src/plugin/render-api/render-api";
+import { i18n } from "./translations/language";
+
+/**
+ * Serves an export destination on localhost, so the site can use the navigation which needs http instead of file://.
+ * Served pages listen for a reload signal, which is sent after every export into the served folder.
+ */
+export class PreviewServer
+{
+	private static readonly reloadPath = "/__webpage-export-live-reload";
+	private static readonly reloadScript = `<script>new EventSource("${PreviewServer.reloadPath}").onmessage = () => location.reload();</script>`;
+
+	private static server: http.Server | undefined = undefined;
+	private static root: string | undefined = undefined;
+	private static port: number = 0;
+	private static clients: Set<http.ServerResponse> = new Set();
+
+	public static get isRunning(): boolean
+	{
+		return this.server != undefined;
+	}
+
+	public static get url(): string
+	{
+		return `http://localhost:${this.port}/`;
+	}
+
+	/**
+	 * Whether the server is serving the given folder.
+	 */
+	public static isServing(destination: Path): boolean
+	{
+		return this.isRunning && this.root == path.resolve(destination.absoluted().path);
+	}
+
+	/**
+	 * Starts serving the destination, or switches to it if the server is already running, and opens the site in the browser.
+	 */
+	public static async start(destination: Path): Promise<boolean>
+	{
+		if (!destination.exists || !destination.isDirectory || !destination.joinString("index.html").exists)
+		{
+			new Notice(i18n.previewServer.noSite, 5000);
+			return false;
+		}
+
+		this.root = path.resolve(destination.absoluted().path);
+		if (!this.server)
+		{
+			try
+			{
+				await this.listen(Settings.previewServerPort);
+			}
+			catch (e)
+			{
+				this.stop();
+				new Notice(i18n.previewServer.failed.format(String(Settings.previewServerPort)), 5000);
+				ExportLog.error(e, "Could not start the preview server");
+				return false;
+			}
+		}
+
+		new Notice(i18n.previewServer.started.format(this.url), 5000);
+		window.open(this.url);
+		return true;
+	}
+
+	public static stop()
+	{
+		for (const client of this.clients) client.end();
+		this.clients.clear();
+		this.server?.close();
+		this.server = undefined;
+		this.root = undefined;
+	}
+
+	/**
+	 * Tells every open page to reload.
+	 */
+	public static reload()
+	{
+		for (const client of this.clients) client.write("data: reload\n\n");
+	}
+
+	private static listen(port: number): Promise<void>
+	{
+		return new Promise((resolve, reject) =>
+		{
+			const server = http.createServer((request, response) => this.handle(request, response));
+			server.once("error", reject);
+			server.listen(port, "127.0.0.1", () =>
+			{
+				server.off("error", reject);
+				const address = server.address();
+				this.port = typeof address == "object" && address ? address.port : port;
+				this.server = server;
+				resolve();
+			});
+		});
+	}
+
+	private static async handle(request: http.IncomingMessage, response: http.ServerResponse)
+	{
+		let pathname = "";
+		try
+		{
+			pathname = decodeURIComponent(new URL(request.url ?? "/", "http://localhost").pathname);
+		}
+		catch
+		{
+			response.writeHead(400).end();
+			return;
+		}
+
+		if (pathname == this.reloadPath)
+		{
+			response.writeHead(200, { "Content-Type": "text/event-stream", "Cache-Control": "no-cache", "Connection": "keep-alive" });
+			response.write("\n");
+			this.clients.add(response);
+			request.on("close", () => this.clients.delete(response));
+			return;
+		}
+
+		const root = this.root;
+		let filePath = root ? path.join(root, pathname) : undefined;
+		// never serve anything outside of the export
+		if (!root || !filePath || (filePath != root && !filePath.startsWith(root + path.sep)))
+		{
+			response.writeHead(403).end();
+			return;
+		}
+
+		try
+		{
+			if ((await fs.stat(filePath)).isDirectory()) filePath = path.join(filePath, "index.html");
+			let data: Buffer | string = await fs.readFile(filePath);
+			const type = mime.getType(filePath) ?? "application/octet-stream";
+
+			if (type == "text/html")
+			{
+				const html = data.toString();
+				const bodyEnd = html.lastIndexOf("</body>");
+				data = bodyEnd >= 0 ? html.substring(0, bodyEnd) + this.reloadScript + html.substring(bodyEnd) : html + this.reloadScript;
+			}
+
+			response.writeHead(200, { "Content-Type": type, "Cache-Control": "no-store" });
+			response.end(data);
+		}
+		catch
+		{
+			response.writeHead(404, { "Content-Type": "text/plain" }).end("Not found");
+		}
+	}
+}
@@ -68,5 +68,10 @@ export class MarkdownRendererOptions
 	 * Should the usage of the fallback rendering method which iterates all document sections be forced?
 	 */
 	useFallbackRenderer: boolean = false;
+
+	/**
+	 * The number of render leaves created for a batch, and so the number of files rendered at the same time.
+	 */
+	renderConcurrency: number = 1;
 }
 
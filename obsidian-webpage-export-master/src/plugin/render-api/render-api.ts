@@ -110,7 +110,23 @@ export namespace _MarkdownRendererInternal {
 	let fileListContainer: HTMLElement | undefined;
 
 	export const batchDocument = document.implementation.createHTMLDocument();
-	let markdownView: MarkdownView | undefined;
+
+	/**
+	 * All leaves used for rendering in the current batch. The first one is the renderLeaf which also shows the progress.
+	 */
+	let renderLeafPool: WorkspaceLeaf[] = [];
+	let freeRenderLeaves: WorkspaceLeaf[] = [];
+	let markdownViews: Map<WorkspaceLeaf, MarkdownView> = new Map();
+
+	/**
+	 * Resolves once the leaves of the current batch are created, so callers of beginBatch can wait for the pool while another caller sets it up.
+	 */
+	let batchSetup: Promise<void> = Promise.resolve();
+
+	/**
+	 * How long to wait for a free render leaf in milliseconds, so a render which never finishes cannot hang the export.
+	 */
+	const renderLeafTimeout = 60000;
 
 	const infoColor = "var(--text-normal)";
 	const warningColor = "var(--color-yellow)";
@@ -154,6 +170,36 @@ export namespace _MarkdownRendererInternal {
 		});
 	}
 
+	/**
+	 * Waits for a leaf of the pool to become free and reserves it.
+	 * Every acquired leaf has to be given back with releaseRenderLeaf.
+	 * @returns undefined if the batch was cancelled or ended, or no leaf was free in time.
+	 */
+	export async function acquireRenderLeaf(timeout: number = renderLeafTimeout): Promise<WorkspaceLeaf | undefined> {
+		const start = Date.now();
+		while (Date.now() - start < timeout) {
+			if (checkCancelled()) return undefined;
+			const leaf = freeRenderLeaves.pop();
+			if (leaf) return leaf;
+			await delay(1);
+		}
+
+		ExportLog.warning(`No render leaf was free after ${timeout / 1000} seconds, a render may be stuck.`);
+		return undefined;
+	}
+
+	export function releaseRenderLeaf(leaf: WorkspaceLeaf) {
+		if (renderLeafPool.includes(leaf) && !freeRenderLeaves.includes(leaf))
+			freeRenderLeaves.push(leaf);
+	}
+
+	/**
+	 * The number of files that can be rendered at the same time in the current batch.
+	 */
+	export function renderLeafCount(): number {
+		return Math.max(renderLeafPool.length, 1);
+	}
+
 	function failRender(file: TFile | undefined, message: any): undefined {
 		if (checkCancelled()) return undefined;
 
@@ -172,19 +218,33 @@ export namespace _MarkdownRendererInternal {
 			await _MarkdownRendererInternal.beginBatch(options);
 		}
 
-		const success = await waitUntil(() => renderLeaf != undefined || checkCancelled(), 2000, 1);
-		if (!success || !renderLeaf) return failRender(file, "Failed to get leaf for rendering!");
+		const leaf = await acquireRenderLeaf();
+		if (!leaf) return failRender(file, "Failed to get leaf for rendering!");
+
+		let result: { contentEl: HTMLElement, viewType: string } | undefined;
+		try {
+			result = await renderFileInLeaf(file, leaf, options);
+		}
+		finally {
+			releaseRenderLeaf(leaf);
+		}
 
+		if (loneFile) _MarkdownRendererInternal.endBatch();
+
+		return result;
+	}
+
+	async function renderFileInLeaf(file: TFile, leaf: WorkspaceLeaf, options: MarkdownRendererOptions): Promise<{ contentEl: HTMLElement, viewType: string } | undefined> {
 		let html: HTMLElement | undefined;
 
 		try {
-			await renderLeaf.openFile(file, { active: false });
+			await leaf.openFile(file, { active: false });
 		}
 		catch (e) {
 			return failRender(file, e);
 		}
 
-		const view = renderLeaf.view;
+		const view = leaf.view;
 		const viewType = view.getViewType();
 
 		switch (viewType) {
@@ -210,8 +270,6 @@ export namespace _MarkdownRendererInternal {
 		if (checkCancelled()) return undefined;
 		if (!html) return failRender(file, "Failed to render file!");
 
-		if (loneFile) _MarkdownRendererInternal.endBatch();
-
 		return { contentEl: html, viewType: viewType };
 	}
 
@@ -222,12 +280,29 @@ export namespace _MarkdownRendererInternal {
 			await _MarkdownRendererInternal.beginBatch(options);
 		}
 
-		const success = await waitUntil(() => renderLeaf != undefined || checkCancelled(), 2000, 1);
-		if (!success || !renderLeaf) return failRender(undefined, "Failed to get leaf for rendering!");
+		const leaf = await acquireRenderLeaf();
+		if (!leaf) return failRender(undefined, "Failed to get leaf for rendering!");
+
+		let html: HTMLElement | undefined;
+		try {
+			html = await renderMarkdownInLeaf(markdown, leaf, options);
+		}
+		finally {
+			releaseRenderLeaf(leaf);
+		}
+
+		if (loneFile) _MarkdownRendererInternal.endBatch();
 
+		return html;
+	}
 
-		const view: MarkdownView = markdownView ?? new MarkdownView(renderLeaf);
-		renderLeaf.view = view;
+	async function renderMarkdownInLeaf(markdown: string, leaf: WorkspaceLeaf, options: MarkdownRendererOptions): Promise<HTMLElement | undefined> {
+		let view = markdownViews.get(leaf);
+		if (!view) {
+			view = new MarkdownView(leaf);
+			markdownViews.set(leaf, view);
+		}
+		leaf.view = view;
 
 		try {
 			view.setViewData(markdown, false);
@@ -236,18 +311,13 @@ export namespace _MarkdownRendererInternal {
 			return failRender(undefined, e);
 		}
 
-
-		let html: HTMLElement | undefined;
-
 		// @ts-ignore
 		const preview = view.previewMode;
-		html = await renderMarkdownView(preview, options);
+		const html = await renderMarkdownView(preview, options);
 
 		if (checkCancelled()) return undefined;
 		if (!html) return failRender(undefined, "Failed to render file!");
 
-		if (loneFile) _MarkdownRendererInternal.endBatch();
-
 		return html;
 	}
 
@@ -1269,7 +1339,10 @@ export namespace _MarkdownRendererInternal {
 	}
 
 	export async function beginBatch(options: MarkdownRendererOptions) {
-		if (batchStarted) return;
+		if (batchStarted) {
+			await batchSetup;
+			return;
+		}
 
 		errorInBatch = false;
 		cancelled = false;
@@ -1282,8 +1355,14 @@ export namespace _MarkdownRendererInternal {
 			batchDocument.write("<body></body>");
 		}
 
+		batchSetup = createRenderLeaves(options);
+		await batchSetup;
+	}
+
+	async function createRenderLeaves(options: MarkdownRendererOptions) {
 		renderLeaf = TabManager.openNewTab("tab", "horizontal", true);
-		markdownView = new MarkdownView(renderLeaf);
+		renderLeafPool = [renderLeaf];
+		markdownViews = new Map();
 
 		// @ts-ignore
 		const parentFound = await waitUntil(() => (renderLeaf && renderLeaf.parent) || checkCancelled(), 2000, 1);
@@ -1303,6 +1382,19 @@ export namespace _MarkdownRendererInternal {
 			return;
 		}
 
+		// split the render leaf so every leaf of the pool stays visible and lays out its content
+		const leafCount = Math.max(1, Math.floor(options.renderConcurrency ?? 1));
+		for (let i = 1; i < leafCount; i++) {
+			try {
+				renderLeafPool.push(app.workspace.createLeafBySplit(renderLeaf, i % 2 == 0 ? "horizontal" : "vertical"));
+			}
+			catch (e) {
+				ExportLog.warning(e, "Failed to create additional render leaf: ");
+				break;
+			}
+		}
+		freeRenderLeaves = [...renderLeafPool];
+
 		const obsidianWindow = renderLeaf.view.containerEl.win;
 		// @ts-ignore
 		electronWindow = obsidianWindow.electronWindow as electron.BrowserWindow;
@@ -1327,6 +1419,14 @@ export namespace _MarkdownRendererInternal {
 		document.body.classList.remove("html-export-running");
 		electronWindow?.webContents.setBackgroundThrottling(true);
 
+		// the additional leaves are never needed to show the log
+		for (const leaf of renderLeafPool) {
+			if (leaf != renderLeaf) leaf.detach();
+		}
+		renderLeafPool = [];
+		freeRenderLeaves = [];
+		markdownViews = new Map();
+
 		if (renderLeaf) {
 			if (!errorInBatch) {
 				ExportLog.log("Closing render window");
@@ -1513,6 +1613,41 @@ export namespace ExportLog {
 	let totalProgress = 1;
 	let currentProgress = 0;
 
+	export interface LogEntry {
+		level: "info" | "warning" | "error" | "fatal";
+		title: string;
+		message: string;
+		time: number;
+	}
+
+	let listeners: ((entry: LogEntry) => void)[] = [];
+
+	/**
+	 * Calls the listener for every message logged until it is removed again.
+	 */
+	export function addListener(listener: (entry: LogEntry) => void) {
+		listeners.push(listener);
+	}
+
+	export function removeListener(listener: (entry: LogEntry) => void) {
+		listeners.remove(listener);
+	}
+
+	function notifyListeners(level: LogEntry["level"], title: string, message: any) {
+		if (listeners.length == 0) return;
+
+		const messageString = (typeof message === "string") ? message : (message instanceof Error) ? (message.stack ?? message.message) : JSON.stringify(message);
+		const entry: LogEntry = { level, title, message: messageString ?? "", time: Date.now() };
+		for (const listener of listeners) {
+			try {
+				listener(entry);
+			}
+			catch (e) {
+				console.error("Export log listener failed: ", e);
+			}
+		}
+	}
+
 	function logToString(message: any, title: string) {
 		const messageString = (typeof message === "string") ? message : JSON.stringify(message).replaceAll("\n", "\n\t\t");
 		const titleString = title != "" ? title + "\t" : "";
@@ -1534,6 +1669,7 @@ export namespace ExportLog {
 	export function log(message: any, messageTitle: string = "") {
 		pullPathLogs();
 
+		notifyListeners("info", messageTitle, message);
 		messageTitle = `[INFO] ${messageTitle}`
 		fullLog += logToString(message, messageTitle);
 
@@ -1548,6 +1684,7 @@ export namespace ExportLog {
 	export function warning(message: any, messageTitle: string = "") {
 		pullPathLogs();
 
+		notifyListeners("warning", messageTitle, message);
 		messageTitle = `[WARNING] ${messageTitle}`
 		fullLog += logToString(message, messageTitle);
 
@@ -1562,6 +1699,7 @@ export namespace ExportLog {
 	export function error(message: any, messageTitle: string = "", fatal: boolean = false) {
 		pullPathLogs();
 
+		notifyListeners(fatal ? "fatal" : "error", messageTitle, message);
 		messageTitle = (fatal ? "[FATAL ERROR] " : "[ERROR] ") + messageTitle;
 		fullLog += logToString(message, messageTitle);
 
@@ -1,4 +1,4 @@
-import { ButtonComponent, Modal, Setting, TFile } from 'obsidian';
+import { ButtonComponent, Modal, Notice, Setting, TFile } from 'obsidian';
 import { Utils } from 'src/plugin/utils/utils';
 import HTMLExportPlugin from 'src/plugin/main';
 import { ExportPreset, Settings, SettingsPage } from './settings';
@@ -16,12 +16,14 @@ export interface ExportInfo
 	pickedFiles: TFile[];
 	exportPath: Path;
 	validPath: boolean;
+	dryRun: boolean;
 }
 
 export class ExportModal extends Modal 
 {
 	private isClosed: boolean = true;
 	private canceled: boolean = true;
+	private dryRun: boolean = false;
 	private filePickerModalEl: HTMLElement;
 	private filePicker: FilePickerTree;
 	private pickedFiles: TFile[] | undefined = undefined;
@@ -48,6 +50,7 @@ export class ExportModal extends Modal
 	{
 		this.isClosed = false;
 		this.canceled = true;
+		this.dryRun = false;
 		const lang = i18n.exportModal;
 
 		super.open();
@@ -76,6 +79,7 @@ export class ExportModal extends Modal
 			this.filePicker = new FilePickerTree(paths, true, true);
 			this.filePicker.regexBlacklist.push(...Settings.filePickerBlacklist);
 			this.filePicker.regexBlacklist.push(...[Settings.exportOptions.customHeadOptions.sourcePath, Settings.exportOptions.faviconPath]);
+			this.filePicker.regexBlacklist.push(...Settings.exportOptions.customFeatures.map((feature) => feature.sourcePath).filter((path) => path != ""));
 			this.filePicker.regexWhitelist.push(...Settings.filePickerWhitelist);
 			
 			this.filePicker.generateWithItemsClosed = true;
@@ -142,6 +146,92 @@ export class ExportModal extends Modal
 			white-space: pre-wrap;`)
 		}
 
+		const profileSetting = new Setting(contentEl)
+			.setName(lang.profile.title)
+			.setDesc(lang.profile.description)
+			.setHeading()
+			.addDropdown((dropdown) => 
+			{
+				for (const profile of Settings.exportProfiles)
+				{
+					dropdown.addOption(profile.name, profile.name);
+				}
+
+				dropdown.setValue(Settings.activeProfile)
+				.onChange(async (value) =>
+				{
+					await Settings.setActiveProfile(value);
+					this.selectProfileFiles();
+					this.open();
+				});
+			})
+			.addExtraButton((button) => button
+			.setIcon("plus")
+			.setTooltip(lang.profile.newProfile)
+			.onClick(() =>
+			{
+				const nameModal = new Modal(app);
+				nameModal.titleEl.setText(lang.profile.newProfile);
+				let profileName = "";
+
+				new Setting(nameModal.contentEl)
+				.setName(lang.profile.name)
+				.addText((text) => text
+				.onChange((value) => profileName = value));
+
+				new Setting(nameModal.contentEl)
+				.addButton((button) => button
+				.setButtonText(i18n.cancel)
+				.onClick(() => nameModal.close()))
+				.addButton((button) => button
+				.setButtonText(lang.profile.create)
+				.setCta()
+				.onClick(async () =>
+				{
+					const profile = await Settings.createProfile(profileName);
+					if (!profile)
+					{
+						new Notice(lang.profile.invalidName, 5000);
+						return;
+					}
+
+					await Settings.setActiveProfile(profile.name);
+					(SettingsPage.plugin as HTMLExportPlugin).updateProfileCommands();
+					nameModal.close();
+					this.selectProfileFiles();
+					this.open();
+				}));
+
+				nameModal.open();
+			}))
+			.addExtraButton((button) => button
+			.setIcon("trash")
+			.setTooltip(lang.profile.deleteProfile)
+			.setDisabled(Settings.exportProfiles.length <= 1)
+			.onClick(async () =>
+			{
+				const confirmModal = new Modal(app);
+				confirmModal.titleEl.setText(lang.profile.deleteConfirmation.format(Settings.activeProfile));
+				confirmModal.open();
+
+				new Setting(confirmModal.contentEl)
+				.addButton((button) => button
+				.setButtonText(i18n.cancel)
+				.onClick(() => confirmModal.close()))
+				.addButton((button) => button
+				.setButtonText(lang.profile.deleteProfile)
+				.setWarning()
+				.onClick(async () =>
+				{
+					await Settings.deleteProfile(Settings.activeProfile);
+					(SettingsPage.plugin as HTMLExportPlugin).updateProfileCommands();
+					confirmModal.close();
+					this.selectProfileFiles();
+					this.open();
+				}));
+			}));
+		profileSetting.settingEl.style.paddingRight = "1em";
+
 		const modeDescriptions = 
 		{
 			"online": lang.exportMode.online,
@@ -288,6 +378,15 @@ export class ExportModal extends Modal
 		});
 
 		const { fileInput } = exportPathInput;
+
+		fileInput.addButton((button) => {
+			button.setButtonText(lang.dryRunButton).setTooltip(lang.dryRunDescription).onClick(async () => 
+			{
+				this.canceled = false;
+				this.dryRun = true;
+				this.close();
+			});
+		});
 		
 		fileInput.addButton((button) => {
 			exportButton = button;
@@ -319,11 +418,21 @@ export class ExportModal extends Modal
 		
 		this.pickedFiles = this.filePicker.getSelectedFiles();
 		this.filePickerModalEl.remove();
-		this.exportInfo = { canceled: this.canceled, pickedFiles: this.pickedFiles, exportPath: new Path(Settings.exportOptions.exportPath), validPath: this.validPath};
+		this.exportInfo = { canceled: this.canceled, pickedFiles: this.pickedFiles, exportPath: new Path(Settings.exportOptions.exportPath), validPath: this.validPath, dryRun: this.dryRun};
 
 		return this.exportInfo;
 	}
 
+	/**
+	 * Updates the file picker to show the files selected by the active profile.
+	 */
+	private selectProfileFiles()
+	{
+		if (!this.filePicker) return;
+		this.filePicker.forAllChildren((child) => child.check(false, false, true));
+		this.filePicker.setSelectedFiles(Settings.exportOptions.filesToExport);
+	}
+
 	onClose() 
 	{
 		const { contentEl } = this;
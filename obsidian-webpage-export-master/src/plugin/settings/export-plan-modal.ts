@@ -0,0 +1,70 @@
+import { Modal, Setting } from 'obsidian';
+import { ExportPlan } from 'src/plugin/exporter';
+import { i18n } from '../translations/language';
+
+/**
+ * Shows the result of a dry run: which files an export would create, update and delete.
+ */
+export class ExportPlanModal extends Modal
+{
+	private plan: ExportPlan;
+
+	constructor(plan: ExportPlan)
+	{
+		super(app);
+		this.plan = plan;
+	}
+
+	onOpen()
+	{
+		const { contentEl } = this;
+		const lang = i18n.exportPlan;
+
+		contentEl.empty();
+		this.titleEl.setText(lang.title);
+
+		const description = contentEl.createEl('div', { cls: 'setting-item-description' });
+		description.setText(lang.description.format(this.plan.destination));
+		description.style.whiteSpace = "pre-wrap";
+		description.style.marginBottom = "1em";
+
+		if (this.plan.newFiles.length == 0 && this.plan.updatedFiles.length == 0 && this.plan.deletedFiles.length == 0)
+		{
+			contentEl.createEl('p', { text: lang.nothingToDo });
+		}
+
+		this.createFileList(contentEl, lang.newFiles, this.plan.newFiles, "var(--color-green)");
+		this.createFileList(contentEl, lang.updatedFiles, this.plan.updatedFiles, "var(--color-blue)");
+		this.createFileList(contentEl, lang.deletedFiles, this.plan.deletedFiles, "var(--color-red)");
+		this.createFileList(contentEl, lang.unchangedFiles, this.plan.unchangedFiles, "var(--text-muted)");
+
+		new Setting(contentEl)
+		.addButton((button) => button
+		.setButtonText(lang.close)
+		.onClick(() => this.close()));
+	}
+
+	private createFileList(container: HTMLElement, title: string, files: string[], color: string)
+	{
+		const details = container.createEl('details');
+		details.style.marginBottom = "0.5em";
+
+		const summary = details.createEl('summary', { text: `${title} (${files.length})` });
+		summary.style.color = color;
+		summary.style.cursor = "pointer";
+
+		const list = details.createEl('ul');
+		list.style.maxHeight = "20em";
+		list.style.overflowY = "auto";
+		list.style.fontSize = "var(--font-ui-smaller)";
+		for (const file of files)
+		{
+			list.createEl('li', { text: file });
+		}
+	}
+
+	onClose()
+	{
+		this.contentEl.empty();
+	}
+}
@@ -336,7 +336,7 @@ export function generateSettingsFromObject(obj: any, container: HTMLElement)
 	}
 }
 
-export function createFeatureSetting(container: HTMLElement, name: string, feature: FeatureOptions, desc: string, addSettings?: (container: HTMLElement) => void)
+export function createFeatureSetting(container: HTMLElement, name: string, feature: FeatureOptions, desc: string, addSettings?: (container: HTMLElement) => void): Setting
 {
 	let setting = new Setting(container).setName(name).setDesc(desc);
 
@@ -386,4 +386,6 @@ export function createFeatureSetting(container: HTMLElement, name: string, featu
 			})
 		}
 	});
+
+	return setting;
 }
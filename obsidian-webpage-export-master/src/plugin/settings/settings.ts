@@ -12,6 +12,9 @@ import supportedStyleIds from "src/assets/plugin-style-ids.json";
 import { SupportedPluginStyles } from '../asset-loaders/supported-plugin-styles';
 import postcss from 'postcss';
 import safeParser from 'postcss-safe-parser';
+import { LiveExporter } from '../live-exporter';
+import { PublishFilter } from '../website/publish-filter';
+import { CustomFeatureOptions } from 'src/shared/features/custom-feature';
 
 // #region Settings Definition
 
@@ -31,19 +34,72 @@ export enum LogLevel
 	None = "none",
 }
 
+export class ExportProfile
+{
+	public static readonly defaultName: string = "Default";
+
+	/**
+	 * The unique name of the profile, shown in the export modal and used by commands.
+	 */
+	public name: string;
+
+	/**
+	 * The preset that was last applied to this profile.
+	 */
+	public exportPreset: ExportPreset = ExportPreset.Online;
+
+	/**
+	 * The full pipeline options of this profile, including the files to export and the destination.
+	 */
+	public exportOptions: ExportPipelineOptions;
+
+	constructor(name: string, exportPreset: ExportPreset = ExportPreset.Online, exportOptions: ExportPipelineOptions = new ExportPipelineOptions())
+	{
+		this.name = name;
+		this.exportPreset = exportPreset;
+		this.exportOptions = exportOptions;
+	}
+
+	/**
+	 * Creates a profile from saved json data, keeping the defaults for any missing options.
+	 */
+	public static fromJSON(json: any): ExportProfile
+	{
+		const options = new ExportPipelineOptions();
+		SettingsPage.deepAssign(options, json?.exportOptions);
+		options.reconstructFeatureOptions();
+		return new ExportProfile(json?.name ?? ExportProfile.defaultName, json?.exportPreset ?? ExportPreset.Online, options);
+	}
+}
+
 export class Settings
 {
 	public static settingsVersion: string = "0.0.0";
 
 	public static exportOptions: ExportPipelineOptions = new ExportPipelineOptions();
 
+	// Export Profiles
+	public static exportProfiles: ExportProfile[] = [];
+	public static activeProfile: string = ExportProfile.defaultName;
+
 	public static logLevel: LogLevel = LogLevel.Warning;
 	public static titleProperty: string = "title";
 	public static rssDateProperty: string = "date";
+	public static permalinkProperty: string = "permalink";
+	public static slugProperty: string = "slug";
 	public static onlyExportModified: boolean = true;
 	public static deleteOldFiles: boolean = true;
 	public static exportPreset: ExportPreset = ExportPreset.Online;
 	public static openAfterExport: boolean = true;
+	public static liveExport: boolean = false;
+	public static liveExportDelay: number = 5;
+	public static previewServerPort: number = 8080;
+	/**
+	 * Vault paths of renamed or moved files mapped to their current path, used to redirect their old export paths.
+	 * Kept for each export destination by its absolute path: renames are only recorded for destinations exported to before,
+	 * and forgotten once the destination was exported again.
+	 */
+	public static renamedFiles: {[destination: string]: {[oldPath: string]: string}} = {};
 
 	// Graph View Settings
 	public static filePickerBlacklist: string[] = ["(^|\\/)node_modules\\/","(^|\\/)dist\\/","(^|\\/)dist-ssr\\/","(^|\\/)\\.vscode\\/"]; // ignore node_modules, dist, and .vscode
@@ -63,6 +119,8 @@ export class Settings
 		Settings.exportOptions.fileNavigationOptions.setAvailable(true);
 		Settings.exportOptions.searchOptions.setAvailable(true);
 		Settings.exportOptions.rssOptions.setAvailable(true);
+		Settings.exportOptions.sitemapOptions.unavailable = false;
+		Settings.exportOptions.blogOptions.unavailable = false;
 		Settings.exportOptions.combineAsSingleFile = false;
 
 		await SettingsPage.saveSettings();
@@ -81,6 +139,8 @@ export class Settings
 		Settings.exportOptions.fileNavigationOptions.setAvailable(true);
 		Settings.exportOptions.searchOptions.setAvailable(false);
 		Settings.exportOptions.rssOptions.setAvailable(false);
+		Settings.exportOptions.sitemapOptions.setAvailable(false);
+		Settings.exportOptions.blogOptions.setAvailable(false);
 		Settings.exportOptions.combineAsSingleFile = true;
 
 		await SettingsPage.saveSettings();
@@ -99,6 +159,8 @@ export class Settings
 		Settings.exportOptions.fileNavigationOptions.setAvailable(false);
 		Settings.exportOptions.searchOptions.setAvailable(false);
 		Settings.exportOptions.rssOptions.setAvailable(false);
+		Settings.exportOptions.sitemapOptions.setAvailable(false);
+		Settings.exportOptions.blogOptions.setAvailable(false);
 		Settings.exportOptions.combineAsSingleFile = false;
 
 		await SettingsPage.saveSettings();
@@ -127,12 +189,114 @@ export class Settings
 		return filteredFiles;
 	}
 
-	static getFilesToExport(): TFile[]
+	static getFilesToExport(options: ExportPipelineOptions = Settings.exportOptions): TFile[]
 	{
-		return this.getAllFilesFromPaths(Settings.exportOptions.filesToExport).map(p => app.vault.getFileByPath(p)).filter(f => f) as TFile[];
+		return this.getAllFilesFromPaths(options.filesToExport).map(p => app.vault.getFileByPath(p)).filter(f => f) as TFile[];
 	}
 
-	
+	// #region Export Profiles
+
+	public static getProfile(name: string): ExportProfile | undefined
+	{
+		return Settings.exportProfiles.find((profile) => profile.name == name);
+	}
+
+	public static getActiveProfile(): ExportProfile
+	{
+		let profile = Settings.getProfile(Settings.activeProfile);
+		if (!profile)
+		{
+			profile = new ExportProfile(Settings.activeProfile || ExportProfile.defaultName, Settings.exportPreset, Settings.exportOptions);
+			Settings.exportProfiles.unshift(profile);
+		}
+
+		return profile;
+	}
+
+	/**
+	 * Rebuilds the profile instances after loading them from json.
+	 * The top level export options are the source of truth for the active profile.
+	 */
+	public static reconstructProfiles()
+	{
+		Settings.exportProfiles = (Settings.exportProfiles ?? []).map((profile) => ExportProfile.fromJSON(profile));
+		const active = Settings.getActiveProfile();
+		active.exportOptions = Settings.exportOptions;
+		active.exportPreset = Settings.exportPreset;
+		Settings.activeProfile = active.name;
+	}
+
+	/**
+	 * Copies the current top level settings back into the active profile.
+	 */
+	public static storeActiveProfile()
+	{
+		const active = Settings.getActiveProfile();
+		active.exportOptions = Settings.exportOptions;
+		active.exportPreset = Settings.exportPreset;
+	}
+
+	/**
+	 * Makes the given profile the one used by the export modal, commands and the exporter.
+	 * @returns False if no profile with this name exists.
+	 */
+	public static async setActiveProfile(name: string): Promise<boolean>
+	{
+		const profile = Settings.getProfile(name);
+		if (!profile) return false;
+
+		Settings.storeActiveProfile();
+		Settings.activeProfile = profile.name;
+		Settings.exportOptions = profile.exportOptions;
+		Settings.exportPreset = profile.exportPreset;
+
+		await SettingsPage.saveSettings();
+		return true;
+	}
+
+	/**
+	 * Creates a new profile as a copy of the active one.
+	 * Names which only differ in case or punctuation are taken too, because they would share the profile's export command.
+	 * @returns The new profile, or undefined if the name is empty or already taken.
+	 */
+	public static async createProfile(name: string): Promise<ExportProfile | undefined>
+	{
+		name = name.trim();
+		if (name == "" || Settings.exportProfiles.some((profile) => Path.slugify(profile.name) == Path.slugify(name))) return undefined;
+
+		Settings.storeActiveProfile();
+		const data = SettingsPage.deepRemoveStartingWith(SettingsPage.deepCopy(Settings.getActiveProfile()), "info_");
+		const profile = ExportProfile.fromJSON(data);
+		profile.name = name;
+		Settings.exportProfiles.push(profile);
+
+		await SettingsPage.saveSettings();
+		return profile;
+	}
+
+	/**
+	 * Deletes a profile. The last remaining profile cannot be deleted.
+	 * If the active profile is deleted the first remaining profile becomes active.
+	 */
+	public static async deleteProfile(name: string): Promise<boolean>
+	{
+		const profile = Settings.getProfile(name);
+		if (!profile || Settings.exportProfiles.length <= 1) return false;
+
+		Settings.exportProfiles.remove(profile);
+		if (Settings.activeProfile == name)
+		{
+			const next = Settings.exportProfiles[0];
+			Settings.activeProfile = next.name;
+			Settings.exportOptions = next.exportOptions;
+			Settings.exportPreset = next.exportPreset;
+		}
+
+		await SettingsPage.saveSettings();
+		return true;
+	}
+
+	// #endregion
 }
 
 // #endregion
@@ -184,11 +348,45 @@ export class SettingsPage extends PluginSettingTab
 		createFeatureSetting(section, lang.linkPreview.title,		Settings.exportOptions.linkPreviewOptions,		lang.linkPreview.description);
 		createFeatureSetting(section, lang.themeToggle.title,		Settings.exportOptions.themeToggleOptions,		lang.themeToggle.description);
 		createFeatureSetting(section, lang.customHead.title,		Settings.exportOptions.customHeadOptions,		lang.customHead.description);
+
+		for (const feature of Settings.exportOptions.customFeatures)
+		{
+			createFeatureSetting(section, feature.displayTitle || feature.featureId, feature, feature.sourcePath)
+				.addExtraButton((button) => button
+					.setIcon("trash")
+					.setTooltip(lang.customFeatures.remove)
+					.onClick(async () =>
+					{
+						Settings.exportOptions.customFeatures.remove(feature);
+						await SettingsPage.saveSettings();
+						this.display();
+					}));
+		}
+
+		new Setting(section)
+			.setName(lang.customFeatures.title)
+			.setDesc(lang.customFeatures.description)
+			.addButton((button) => button
+				.setButtonText(lang.customFeatures.add)
+				.onClick(async () =>
+				{
+					// ids must be unique, because features are found and replaced by their id
+					const ids = Settings.exportOptions.customFeatures.map((feature) => feature.featureId);
+					let number = ids.length + 1;
+					while (ids.contains("custom-feature-" + number)) number++;
+
+					Settings.exportOptions.customFeatures.push(new CustomFeatureOptions("custom-feature-" + number));
+					await SettingsPage.saveSettings();
+					this.display();
+				}));
 		createFeatureSetting(section, lang.backlinks.title,			Settings.exportOptions.backlinkOptions,			lang.backlinks.description);
 		createFeatureSetting(section, lang.tags.title,				Settings.exportOptions.tagOptions,				lang.tags.description);
 		createFeatureSetting(section, lang.aliases.title,			Settings.exportOptions.aliasOptions,			lang.aliases.description);
 		// createFeatureSetting(section, lang.properties.title,		Settings.exportOptions.propertiesOptions,		lang.properties.description);
 		createFeatureSetting(section, lang.rss.title,				Settings.exportOptions.rssOptions,				lang.rss.description);
+		createFeatureSetting(section, lang.sitemap.title,			Settings.exportOptions.sitemapOptions,			lang.sitemap.description);
+		createFeatureSetting(section, lang.languages.title,			Settings.exportOptions.languageOptions,			lang.languages.description);
+		createFeatureSetting(section, lang.blog.title,				Settings.exportOptions.blogOptions,				lang.blog.description);
 
 		// #endregion
 
@@ -228,6 +426,27 @@ export class SettingsPage extends PluginSettingTab
 			(value) => Settings.exportOptions.homePagePath = value,
 			lang.homePagePath.description);
 
+		createFileInput(section,
+			() => Settings.exportOptions.layoutTemplatePath,
+			(value) => Settings.exportOptions.layoutTemplatePath = value,
+			{
+				name: lang.layoutTemplate.title,
+				description: lang.layoutTemplate.description,
+				placeholder: i18n.pathInputPlaceholder,
+				makeRelativeToVault: true,
+				pickFolder: false,
+				validation: (path) => path.validate(
+					{
+						allowEmpty: true,
+						allowAbsolute: true,
+						allowRelative: true,
+						allowFiles: true,
+						requireExists: true,
+						requireExtentions: ["html"]
+					}),
+				browseButton: true,
+			});
+
 		// #endregion
 
 		//#region Style Settings
@@ -325,6 +544,81 @@ export class SettingsPage extends PluginSettingTab
 			(value) => Settings.exportOptions.offlineResources = value,
 			lang.makeOfflineCompatible.description);
 
+		createToggle(section, lang.zipOutput.title,
+			() => Settings.exportOptions.zipOutput,
+			(value) => Settings.exportOptions.zipOutput = value,
+			lang.zipOutput.description);
+
+		createToggle(section, lang.buildReport.title,
+			() => Settings.exportOptions.buildReport,
+			(value) => Settings.exportOptions.buildReport = value,
+			lang.buildReport.description);
+
+		createToggle(section, lang.buildReportHTML.title,
+			() => Settings.exportOptions.buildReportHTML,
+			(value) => Settings.exportOptions.buildReportHTML = value,
+			lang.buildReportHTML.description);
+
+		createToggle(section, lang.checkLinks.title,
+			() => Settings.exportOptions.checkLinks,
+			(value) => Settings.exportOptions.checkLinks = value,
+			lang.checkLinks.description);
+
+		createToggle(section, lang.failOnBrokenLinks.title,
+			() => Settings.exportOptions.failOnBrokenLinks,
+			(value) => Settings.exportOptions.failOnBrokenLinks = value,
+			lang.failOnBrokenLinks.description);
+
+		createText(section, lang.publishIncludeRules.title,
+			() => Settings.exportOptions.publishIncludeRules.join(", "),
+			(value) => Settings.exportOptions.publishIncludeRules = PublishFilter.parseRules(value),
+			lang.publishIncludeRules.description);
+
+		createText(section, lang.publishExcludeRules.title,
+			() => Settings.exportOptions.publishExcludeRules.join(", "),
+			(value) => Settings.exportOptions.publishExcludeRules = PublishFilter.parseRules(value),
+			lang.publishExcludeRules.description);
+
+		createToggle(section, lang.createRedirects.title,
+			() => Settings.exportOptions.createRedirects,
+			(value) => Settings.exportOptions.createRedirects = value,
+			lang.createRedirects.description);
+
+		createToggle(section, lang.redirectsFile.title,
+			() => Settings.exportOptions.redirectsFile,
+			(value) => Settings.exportOptions.redirectsFile = value,
+			lang.redirectsFile.description);
+
+		createToggle(section, lang.folderIndexPages.title,
+			() => Settings.exportOptions.folderIndexPages,
+			(value) => Settings.exportOptions.folderIndexPages = value,
+			lang.folderIndexPages.description);
+
+		createToggle(section, lang.contentApi.title,
+			() => Settings.exportOptions.contentApi,
+			(value) => Settings.exportOptions.contentApi = value,
+			lang.contentApi.description);
+
+		createText(section, lang.renderConcurrency.title,
+			() => Settings.exportOptions.renderConcurrency.toString(),
+			(value) => Settings.exportOptions.renderConcurrency = Math.max(1, parseInt(value) || 1),
+			lang.renderConcurrency.description);
+
+		createToggle(section, lang.liveExport.title,
+			() => Settings.liveExport,
+			(value) => LiveExporter.setEnabled(value),
+			lang.liveExport.description);
+
+		createText(section, lang.liveExportDelay.title,
+			() => Settings.liveExportDelay.toString(),
+			(value) => Settings.liveExportDelay = Math.max(0, parseFloat(value) || 0),
+			lang.liveExportDelay.description);
+
+		createText(section, lang.previewServerPort.title,
+			() => Settings.previewServerPort.toString(),
+			(value) => Settings.previewServerPort = Math.min(65535, Math.max(0, parseInt(value) || 0)),
+			lang.previewServerPort.description);
+
 		// #endregion
 
 		// #region Obsidian Settings
@@ -344,6 +638,21 @@ export class SettingsPage extends PluginSettingTab
 			() => Settings.titleProperty,
 			(value) => Settings.titleProperty = value,
 			lang.titleProperty.description);
+
+		createText(section, lang.permalinkProperty.title,
+			() => Settings.permalinkProperty,
+			(value) => Settings.permalinkProperty = value,
+			lang.permalinkProperty.description);
+
+		createText(section, lang.slugProperty.title,
+			() => Settings.slugProperty,
+			(value) => Settings.slugProperty = value,
+			lang.slugProperty.description);
+
+		createText(section, lang.rssDateProperty.title,
+			() => Settings.rssDateProperty,
+			(value) => Settings.rssDateProperty = value,
+			lang.rssDateProperty.description);
 		
 		// #endregion
 	}
@@ -621,13 +930,24 @@ export class SettingsPage extends PluginSettingTab
 		{
 			// do a deep object assign so any non exisant values anywhere in the default settings are preserved
 			SettingsPage.deepAssign(Settings, loadedSettings);
+			// the deep assign only copies keys of the defaults, which the renames have none of
+			// renames saved by older versions were not kept by destination and are dropped
+			Settings.renamedFiles = {};
+			for (const [destination, renames] of Object.entries(loadedSettings.renamedFiles ?? {}))
+			{
+				if (renames && typeof renames == "object") Settings.renamedFiles[destination] = renames as {[oldPath: string]: string};
+			}
 			// Reconstruct feature option instances to preserve constructor-set properties
 			Settings.exportOptions.reconstructFeatureOptions();
+			Settings.reconstructProfiles();
 		}
 		catch (e)
 		{
 			console.error("Failed to apply settings data, using defaults.", e);
 			Settings.exportOptions = new ExportPipelineOptions();
+			Settings.exportProfiles = [];
+			Settings.activeProfile = ExportProfile.defaultName;
+			Settings.getActiveProfile();
 		}
 
 		await SettingsPage.saveSettings();
@@ -636,6 +956,7 @@ export class SettingsPage extends PluginSettingTab
 
 	static async saveSettings() 
 	{
+		Settings.storeActiveProfile();
 		let copy = SettingsPage.deepCopy({...Settings});
 		copy = SettingsPage.deepRemoveStartingWith(copy, "info_");
 		await SettingsPage.plugin.saveData(copy);
@@ -644,11 +965,26 @@ export class SettingsPage extends PluginSettingTab
 	static renameFile(file: TFile, oldPath: string)
 	{
 		const oldPathParsed = new Path(oldPath).path;
-		let fileList = Settings.exportOptions.filesToExport;
-		const index = fileList.indexOf(oldPathParsed);
-		if (index >= 0)
+		Settings.storeActiveProfile();
+		for (const profile of Settings.exportProfiles)
+		{
+			let fileList = profile.exportOptions.filesToExport;
+			const index = fileList.indexOf(oldPathParsed);
+			if (index >= 0)
+			{
+				fileList[index] = file.path;
+			}
+		}
+
+		for (const renames of Object.values(Settings.renamedFiles))
 		{
-			fileList[index] = file.path;
+			// keep earlier renames pointing at the current path
+			for (const [from, to] of Object.entries(renames))
+			{
+				if (to == oldPathParsed) renames[from] = file.path;
+			}
+			renames[oldPathParsed] = file.path;
+			delete renames[file.path];
 		}
 
 		SettingsPage.saveSettings();
@@ -25,6 +25,8 @@ export const language: i18n =
 		moreOptions: "More options located on the plugin settings page.",
 		openAfterExport: "Open after export",
 		exportButton: "Export",
+		dryRunButton: "Dry Run",
+		dryRunDescription: "Preview which files would be created, updated and deleted without writing anything.",
 		filePicker: 
 		{
 			title: "Select all files in exported vault",
@@ -52,6 +54,42 @@ export const language: i18n =
 			confirmation: "Are you sure?",
 			clearWarning: "This will delete the site metadata (but not all the exported html).\n\nThis will force the site to re-export all files.\n\nAlso if you change which files are selected for export before exporting again some files may be left on your file system unused.\n\nThis action cannot be undone.",
 		},
+		profile:
+		{
+			title: "Export Profile",
+			description: "Each profile keeps its own export settings, selected files and destination.",
+			name: "Profile name",
+			newProfile: "New profile",
+			create: "Create",
+			deleteProfile: "Delete profile",
+			deleteConfirmation: "Delete the export profile \"{0}\"?",
+			invalidName: "Profile names must be unique and cannot be empty.",
+			duplicateCommand: "The profiles \"{0}\" and \"{1}\" have names which only differ in case or punctuation, so only the first gets an export command. Rename one of them.",
+		},
+	},
+	exportPlan:
+	{
+		title: "Export Preview",
+		description: "Nothing has been written. This is what exporting to \"{0}\" would do:",
+		nothingToDo: "The export is up to date, no files would change.",
+		newFiles: "New",
+		updatedFiles: "Updated",
+		deletedFiles: "Deleted",
+		unchangedFiles: "Unchanged",
+		close: "Close",
+	},
+	liveExport:
+	{
+		enabled: "Live export enabled",
+		disabled: "Live export disabled",
+		invalidDestination: "Live export skipped: please set a valid export path in the settings first.",
+	},
+	previewServer:
+	{
+		started: "Previewing the site at {0}",
+		stopped: "Preview server stopped",
+		noSite: "Nothing to preview: export the site to the export path first.",
+		failed: "Could not start the preview server on port {0}. It may be in use by another program.",
 	},
 	settings: 
 	{
@@ -136,6 +174,14 @@ export const language: i18n =
 			info_sourcePath: "The local path to the source .html file which will be included.",
 			validationError: "Must be a path to a .html file"
 		},
+		customFeatures: {
+			title: "Custom Features",
+			description: "Show the content of an .html or .md file from your vault on every page, for example a banner, footer or contact box. Each feature has its own placement and title.",
+			add: "Add feature",
+			remove: "Remove feature",
+			info_sourcePath: "The local path to the .html or .md file whose content the feature shows.",
+			validationError: "Must be a path to a .html or .md file"
+		},
 		backlinks: {
 			title: "Backlinks",
 			description: "Displays all the documents which link to the currently opened document."
@@ -144,7 +190,9 @@ export const language: i18n =
 			title: "Tags",
 			description: "Displays the tags for the currently opened document.",
 			info_showInlineTags: "Show tags defined inside the document at the top of the page.",
-			info_showFrontmatterTags: "Show tags defined in the frontmatter of the document at the top of the page."
+			info_showFrontmatterTags: "Show tags defined in the frontmatter of the document at the top of the page.",
+			info_tagPages: "Link tags to a page listing every note with the tag, and write an overview page of all tags. When off, tags open a search for the tag instead, which needs search to be enabled.",
+			overviewTitle: "Tags"
 		},
 		aliases: {
 			title: "Aliases",
@@ -160,7 +208,49 @@ export const language: i18n =
 			description: "Generate an RSS feed for the exported site",
 			info_siteUrl: "The url that this site will be hosted at",
 			info_siteUrlPlaceholder: "https://example.com/mysite",
-			info_authorName: "The name of the author of the site"
+			info_authorName: "The name of the author of the site",
+			info_atomFeed: "Also write an Atom feed",
+			info_jsonFeed: "Also write a JSON Feed",
+			info_scopedFeeds: "Comma separated folders, tags or properties like Blog/, #news or type: post. Each gets its own feed, which is linked from the pages it contains.",
+			info_fullContent: "Include the full content of each page instead of a short description",
+			info_maxItems: "The maximum number of items in each feed, 0 for no limit",
+			info_sortByDate: "Sort items by the date property instead of the modified time",
+			info_excludeUndated: "Leave out pages which don't have the date property",
+			info_excludeFolders: "Comma separated folders whose pages are left out of the feeds"
+		},
+		sitemap: {
+			title: "Sitemap",
+			description: "Generate a sitemap.xml and robots.txt for search engines. Requires the site url from the RSS settings.",
+			info_unlistedProperty: "Notes with this property set to true are left out of the sitemap",
+			info_canonicalLinks: "Add a canonical link with the page's public url to every page",
+			info_robotsTxt: "Write a robots.txt which points search engines to the sitemap",
+			info_robotsDisallow: "Comma separated paths which search engines should not crawl"
+		},
+		languages: {
+			title: "Languages",
+			description: "Group notes which exist in several languages, like Guide.md and Guide.zh.md, link them with hreflang and show a language switcher.",
+			info_languageProperty: "The property which holds the language of a note. Without it, a language suffix in the file name is used, or the default language",
+			info_translationKeyProperty: "Notes with the same value in this property are variants of each other, whatever their file names",
+			info_defaultLanguage: "The language of notes which have no language property or suffix",
+			info_languageNames: "Comma separated names shown in the language switcher, like en: English, zh: 中文",
+			info_filterFileTree: "Only show the pages of the current language in the file tree",
+			info_filterSearch: "Only show search results in the current language"
+		},
+		blog: {
+			title: "Blog",
+			description: "List the notes in a folder newest first on paginated pages, with yearly and monthly archives and links to the previous and next post. Posts are dated by the RSS date property, or when they were last modified.",
+			info_folder: "The vault folder which holds the posts",
+			info_postsPerPage: "How many posts are listed on each page",
+			info_yearlyArchives: "Create a page for each year listing its posts",
+			info_monthlyArchives: "Create a page for each month listing its posts",
+			info_postNavigation: "Link each post to the previous and next post",
+			pageTitle: "{0} - Page {1}",
+			archiveTitle: "{0} - {1}",
+			archives: "Archives",
+			newerPosts: "Newer posts",
+			olderPosts: "Older posts",
+			previousPost: "Previous post",
+			nextPost: "Next post"
 		},
 		styleOptionsSection: {
 			title: "Style Options",
@@ -170,6 +260,66 @@ export const language: i18n =
 			title: "Make Offline Compatible",
 			description: "Download any online assets / images / scripts so the page can be viewed offline. Or so the website does not depend on a CDN."
 		},
+		zipOutput: {
+			title: "Export as Zip Archive",
+			description: "Write the site into a single .zip file in the export folder instead of a folder of files. The archive always contains the whole site."
+		},
+		renderConcurrency: {
+			title: "Parallel Renders",
+			description: "How many files are rendered at the same time. Higher values export large vaults faster but use more memory."
+		},
+		liveExport: {
+			title: "Live Export",
+			description: "Re-export automatically into the export path whenever exported files are created, changed, renamed or deleted. Only the affected pages are rendered again."
+		},
+		liveExportDelay: {
+			title: "Live Export Delay",
+			description: "How many seconds to wait after the last change before exporting."
+		},
+		previewServerPort: {
+			title: "Preview Server Port",
+			description: "The localhost port of the preview server started by the \"Preview the exported site\" command. Pages opened from it reload after every export."
+		},
+		buildReport: {
+			title: "Write Build Report",
+			description: "Write site-lib/build-report.json listing every exported file, whether it was new, updated, skipped or deleted, how long it took to render and any warnings or errors."
+		},
+		buildReportHTML: {
+			title: "Write HTML Build Report",
+			description: "Also write a human readable site-lib/build-report.html next to the json report."
+		},
+		checkLinks: {
+			title: "Check Links",
+			description: "After exporting, check every link and embed for missing pages, missing attachments and bad heading anchors and list them in the log."
+		},
+		failOnBrokenLinks: {
+			title: "Fail on Broken Links",
+			description: "Fail the export when the link check finds any broken links."
+		},
+		publishIncludeRules: {
+			title: "Only Publish Notes Matching",
+			description: "Comma separated rules. When set, only notes matching at least one rule are exported. A rule is a tag like #publish or a property like publish: true."
+		},
+		publishExcludeRules: {
+			title: "Never Publish Notes Matching",
+			description: "Comma separated rules, for example draft: true, #private. Matching notes are not exported, and links to them and embeds of them are removed from other pages."
+		},
+		createRedirects: {
+			title: "Redirect Moved Pages",
+			description: "When a note is renamed or moved, or its permalink or slug changes, write a page at its old location which redirects to the new one. Not available when exporting as a zip archive."
+		},
+		redirectsFile: {
+			title: "Write _redirects File",
+			description: "Also list all redirects in a _redirects file at the root of the site, as used by Netlify and Cloudflare Pages. The site url is used as the base path."
+		},
+		folderIndexPages: {
+			title: "Create Folder Pages",
+			description: "Give every exported folder a page, so folders in the file navigation can be opened. A note inside the folder with the folder's name, or named index, is used as its page. Other folders get a generated page listing their notes and subfolders."
+		},
+		contentApi: {
+			title: "Export JSON Content API",
+			description: "Also write a JSON file for every page with its metadata and rendered content, and an index of all pages, to site-lib/api. Other tools can read the site from these files instead of parsing the pages."
+		},
 		includePluginCSS: {
 			title: "Include CSS from Plugins",
 			description: "Include the CSS from the following plugins in the exported HTML. If plugin features aren't rendering correctly, try adding the plugin to this list. Avoid adding plugins unless you specifically notice a problem, because more CSS will increase the loading time of your page."
@@ -194,6 +344,10 @@ export const language: i18n =
 			title: "Home Page Path",
 			description: "The URL or path opened by the home icon in the top bar",
 		},
+		layoutTemplate: {
+			title: "Layout Template",
+			description: "An .html file from your vault which replaces the page layout. Place the built in parts with <slot name=\"...\"> elements: topbar-left, topbar-title, topbar-right, left-sidebar, content, right-sidebar and footer. {{siteName}}, {{vaultName}}, {{homeLink}} and {{title}} are replaced by their values. The sidebars and the content should stay inside an element with the id main-horizontal. Leave empty to use the built in layout."
+		},
 		iconEmojiStyle: {
 			title: "Icon emoji style",
 			description: "The style of emoji to use for custom icons",
@@ -230,5 +384,17 @@ export const language: i18n =
 			title: "Title Property",
 			description: "The property to use as the title of the document",
 		},
+		permalinkProperty: {
+			title: "Permalink Property",
+			description: "The property a note can use to set its own path in the site, like blog/my-post or about/. Renaming the note keeps this URL.",
+		},
+		slugProperty: {
+			title: "Slug Property",
+			description: "The property a note can use to set its own file name in the site while staying in its folder.",
+		},
+		rssDateProperty: {
+			title: "Date Property",
+			description: "The property holding the publish date of a note, used to date and sort feed items. Notes without it use their modified time.",
+		},
 	}
 }
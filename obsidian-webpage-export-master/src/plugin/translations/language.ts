@@ -30,6 +30,8 @@ export interface i18n
 		moreOptions: string;
 		openAfterExport: string;
 		exportButton: string;
+		dryRunButton: string;
+		dryRunDescription: string;
 		filePicker: 
 		{
 			title: string;
@@ -56,6 +58,41 @@ export interface i18n
 			confirmation: string;
 			clearWarning: string;
 		},
+		profile: {
+			title: string;
+			description: string;
+			name: string;
+			newProfile: string;
+			create: string;
+			deleteProfile: string;
+			deleteConfirmation: string;
+			invalidName: string;
+			duplicateCommand: string;
+		},
+	}
+	exportPlan:
+	{
+		title: string;
+		description: string;
+		nothingToDo: string;
+		newFiles: string;
+		updatedFiles: string;
+		deletedFiles: string;
+		unchangedFiles: string;
+		close: string;
+	}
+	liveExport:
+	{
+		enabled: string;
+		disabled: string;
+		invalidDestination: string;
+	}
+	previewServer:
+	{
+		started: string;
+		stopped: string;
+		noSite: string;
+		failed: string;
 	}
 	settings:
 	{
@@ -140,6 +177,14 @@ export interface i18n
 			info_sourcePath: string;
 			validationError: string;
 		},
+		customFeatures: {
+			title: string;
+			description: string;
+			add: string;
+			remove: string;
+			info_sourcePath: string;
+			validationError: string;
+		},
 		backlinks: {
 			title: string;
 			description: string;
@@ -149,6 +194,8 @@ export interface i18n
 			description: string;
 			info_showInlineTags: string;
 			info_showFrontmatterTags: string;
+			info_tagPages: string;
+			overviewTitle: string;
 		},
 		aliases: {
 			title: string;
@@ -165,6 +212,48 @@ export interface i18n
 			info_siteUrl: string;
 			info_siteUrlPlaceholder: string;
 			info_authorName: string;
+			info_atomFeed: string;
+			info_jsonFeed: string;
+			info_scopedFeeds: string;
+			info_fullContent: string;
+			info_maxItems: string;
+			info_sortByDate: string;
+			info_excludeUndated: string;
+			info_excludeFolders: string;
+		},
+		sitemap: {
+			title: string;
+			description: string;
+			info_unlistedProperty: string;
+			info_canonicalLinks: string;
+			info_robotsTxt: string;
+			info_robotsDisallow: string;
+		},
+		languages: {
+			title: string;
+			description: string;
+			info_languageProperty: string;
+			info_translationKeyProperty: string;
+			info_defaultLanguage: string;
+			info_languageNames: string;
+			info_filterFileTree: string;
+			info_filterSearch: string;
+		},
+		blog: {
+			title: string;
+			description: string;
+			info_folder: string;
+			info_postsPerPage: string;
+			info_yearlyArchives: string;
+			info_monthlyArchives: string;
+			info_postNavigation: string;
+			pageTitle: string;
+			archiveTitle: string;
+			archives: string;
+			newerPosts: string;
+			olderPosts: string;
+			previousPost: string;
+			nextPost: string;
 		},
 		styleOptionsSection: {
 			title: string;
@@ -174,6 +263,66 @@ export interface i18n
 			title: string;
 			description: string;
 		},
+		zipOutput: {
+			title: string;
+			description: string;
+		},
+		renderConcurrency: {
+			title: string;
+			description: string;
+		},
+		liveExport: {
+			title: string;
+			description: string;
+		},
+		liveExportDelay: {
+			title: string;
+			description: string;
+		},
+		previewServerPort: {
+			title: string;
+			description: string;
+		},
+		buildReport: {
+			title: string;
+			description: string;
+		},
+		buildReportHTML: {
+			title: string;
+			description: string;
+		},
+		checkLinks: {
+			title: string;
+			description: string;
+		},
+		failOnBrokenLinks: {
+			title: string;
+			description: string;
+		},
+		publishIncludeRules: {
+			title: string;
+			description: string;
+		},
+		publishExcludeRules: {
+			title: string;
+			description: string;
+		},
+		createRedirects: {
+			title: string;
+			description: string;
+		},
+		redirectsFile: {
+			title: string;
+			description: string;
+		},
+		folderIndexPages: {
+			title: string;
+			description: string;
+		},
+		contentApi: {
+			title: string;
+			description: string;
+		},
 		includePluginCSS: {
 			title: string;
 			description: string;
@@ -198,6 +347,10 @@ export interface i18n
 			title: string;
 			description: string;
 		},
+		layoutTemplate: {
+			title: string;
+			description: string;
+		},
 		iconEmojiStyle: {
 			title: string;
 			description: string;
@@ -234,6 +387,18 @@ export interface i18n
 			title: string;
 			description: string;
 		},
+		permalinkProperty: {
+			title: string;
+			description: string;
+		},
+		slugProperty: {
+			title: string;
+			description: string;
+		},
+		rssDateProperty: {
+			title: string;
+			description: string;
+		},
 
 	}
 }
@@ -25,6 +25,8 @@ export const language: i18n =
 		moreOptions: "Mais opções disponíveis na página de configurações do plugin.",
 		openAfterExport: "Abrir após exportar",
 		exportButton: "Exportar",
+		dryRunButton: "Dry Run",
+		dryRunDescription: "Preview which files would be created, updated and deleted without writing anything.",
 		filePicker: 
 		{
 			title: "Selecionar todos os arquivos no cofre exportado",
@@ -52,6 +54,42 @@ export const language: i18n =
 			confirmation: "Tem certeza?",
 			clearWarning: "Isso excluirá os metadados do site (mas não todo o HTML exportado).\n\nForçará a reexportação de todos os arquivos.\n\nAlém disso se você alterar os arquivos selecionados antes da próxima exportação, alguns arquivos podem permanecer inutilizados no seu sistema.\n\nEsta ação não pode ser desfeita.",
 		},
+		profile:
+		{
+			title: "Perfil de exportação",
+			description: "Cada perfil guarda suas próprias configurações de exportação, arquivos selecionados e destino.",
+			name: "Nome do perfil",
+			newProfile: "Novo perfil",
+			create: "Criar",
+			deleteProfile: "Excluir perfil",
+			deleteConfirmation: "Excluir o perfil de exportação \"{0}\"?",
+			invalidName: "Os nomes dos perfis devem ser únicos e não podem estar vazios.",
+			duplicateCommand: "Os perfis \"{0}\" e \"{1}\" têm nomes que diferem apenas em maiúsculas ou pontuação, então só o primeiro recebe um comando de exportação. Renomeie um deles.",
+		},
+	},
+	exportPlan:
+	{
+		title: "Export Preview",
+		description: "Nothing has been written. This is what exporting to \"{0}\" would do:",
+		nothingToDo: "The export is up to date, no files would change.",
+		newFiles: "New",
+		updatedFiles: "Updated",
+		deletedFiles: "Deleted",
+		unchangedFiles: "Unchanged",
+		close: "Close",
+	},
+	liveExport:
+	{
+		enabled: "Live export enabled",
+		disabled: "Live export disabled",
+		invalidDestination: "Live export skipped: please set a valid export path in the settings first.",
+	},
+	previewServer:
+	{
+		started: "Previewing the site at {0}",
+		stopped: "Preview server stopped",
+		noSite: "Nothing to preview: export the site to the export path first.",
+		failed: "Could not start the preview server on port {0}. It may be in use by another program.",
 	},
 	settings: 
 	{
@@ -135,6 +173,14 @@ export const language: i18n =
 			info_sourcePath: "Caminho local do arquivo .html que será incluído.",
 			validationError: "Deve ser o caminho de um arquivo .html"
 		},
+		customFeatures: {
+			title: "Custom Features",
+			description: "Show the content of an .html or .md file from your vault on every page, for example a banner, footer or contact box. Each feature has its own placement and title.",
+			add: "Add feature",
+			remove: "Remove feature",
+			info_sourcePath: "The local path to the .html or .md file whose content the feature shows.",
+			validationError: "Must be a path to a .html or .md file"
+		},
 		backlinks: {
 			title: "Links de Retorno",
 			description: "Mostra os documentos que fazem referência ao documento atual."
@@ -143,7 +189,9 @@ export const language: i18n =
 			title: "Tags",
 			description: "Exibe as tags do documento aberto.",
 			info_showInlineTags: "Mostrar tags definidas dentro do conteúdo no topo da página.",
-			info_showFrontmatterTags: "Mostrar tags definidas no frontmatter no topo da página."
+			info_showFrontmatterTags: "Mostrar tags definidas no frontmatter no topo da página.",
+			info_tagPages: "Link tags to a page listing every note with the tag, and write an overview page of all tags. When off, tags open a search for the tag instead, which needs search to be enabled.",
+			overviewTitle: "Tags"
 		},
 		aliases: {
 			title: "Apelidos",
@@ -159,7 +207,49 @@ export const language: i18n =
 			description: "Gera um feed RSS para o site exportado",
 			info_siteUrl: "URL onde o site será hospedado",
 			info_siteUrlPlaceholder: "https://exemplo.com/meusite",
-			info_authorName: "Nome do autor do site"
+			info_authorName: "Nome do autor do site",
+			info_atomFeed: "Also write an Atom feed",
+			info_jsonFeed: "Also write a JSON Feed",
+			info_scopedFeeds: "Comma separated folders, tags or properties like Blog/, #news or type: post. Each gets its own feed, which is linked from the pages it contains.",
+			info_fullContent: "Include the full content of each page instead of a short description",
+			info_maxItems: "The maximum number of items in each feed, 0 for no limit",
+			info_sortByDate: "Sort items by the date property instead of the modified time",
+			info_excludeUndated: "Leave out pages which don't have the date property",
+			info_excludeFolders: "Comma separated folders whose pages are left out of the feeds"
+		},
+		sitemap: {
+			title: "Sitemap",
+			description: "Generate a sitemap.xml and robots.txt for search engines. Requires the site url from the RSS settings.",
+			info_unlistedProperty: "Notes with this property set to true are left out of the sitemap",
+			info_canonicalLinks: "Add a canonical link with the page's public url to every page",
+			info_robotsTxt: "Write a robots.txt which points search engines to the sitemap",
+			info_robotsDisallow: "Comma separated paths which search engines should not crawl"
+		},
+		languages: {
+			title: "Languages",
+			description: "Group notes which exist in several languages, like Guide.md and Guide.zh.md, link them with hreflang and show a language switcher.",
+			info_languageProperty: "The property which holds the language of a note. Without it, a language suffix in the file name is used, or the default language",
+			info_translationKeyProperty: "Notes with the same value in this property are variants of each other, whatever their file names",
+			info_defaultLanguage: "The language of notes which have no language property or suffix",
+			info_languageNames: "Comma separated names shown in the language switcher, like en: English, zh: 中文",
+			info_filterFileTree: "Only show the pages of the current language in the file tree",
+			info_filterSearch: "Only show search results in the current language"
+		},
+		blog: {
+			title: "Blog",
+			description: "List the notes in a folder newest first on paginated pages, with yearly and monthly archives and links to the previous and next post. Posts are dated by the RSS date property, or when they were last modified.",
+			info_folder: "The vault folder which holds the posts",
+			info_postsPerPage: "How many posts are listed on each page",
+			info_yearlyArchives: "Create a page for each year listing its posts",
+			info_monthlyArchives: "Create a page for each month listing its posts",
+			info_postNavigation: "Link each post to the previous and next post",
+			pageTitle: "{0} - Page {1}",
+			archiveTitle: "{0} - {1}",
+			archives: "Archives",
+			newerPosts: "Newer posts",
+			olderPosts: "Older posts",
+			previousPost: "Previous post",
+			nextPost: "Next post"
 		},
 		styleOptionsSection: {
 			title: "Opções de Estilo",
@@ -169,6 +259,66 @@ export const language: i18n =
 			title: "Tornar Compatível com Modo Offline",
 			description: "Baixar recursos / imagens / scripts online para que a página funcione offline. Ou evitar dependência de CDNs."
 		},
+		zipOutput: {
+			title: "Export as Zip Archive",
+			description: "Write the site into a single .zip file in the export folder instead of a folder of files. The archive always contains the whole site."
+		},
+		renderConcurrency: {
+			title: "Parallel Renders",
+			description: "How many files are rendered at the same time. Higher values export large vaults faster but use more memory."
+		},
+		liveExport: {
+			title: "Live Export",
+			description: "Re-export automatically into the export path whenever exported files are created, changed, renamed or deleted. Only the affected pages are rendered again."
+		},
+		liveExportDelay: {
+			title: "Live Export Delay",
+			description: "How many seconds to wait after the last change before exporting."
+		},
+		previewServerPort: {
+			title: "Preview Server Port",
+			description: "The localhost port of the preview server started by the \"Preview the exported site\" command. Pages opened from it reload after every export."
+		},
+		buildReport: {
+			title: "Write Build Report",
+			description: "Write site-lib/build-report.json listing every exported file, whether it was new, updated, skipped or deleted, how long it took to render and any warnings or errors."
+		},
+		buildReportHTML: {
+			title: "Write HTML Build Report",
+			description: "Also write a human readable site-lib/build-report.html next to the json report."
+		},
+		checkLinks: {
+			title: "Check Links",
+			description: "After exporting, check every link and embed for missing pages, missing attachments and bad heading anchors and list them in the log."
+		},
+		failOnBrokenLinks: {
+			title: "Fail on Broken Links",
+			description: "Fail the export when the link check finds any broken links."
+		},
+		publishIncludeRules: {
+			title: "Only Publish Notes Matching",
+			description: "Comma separated rules. When set, only notes matching at least one rule are exported. A rule is a tag like #publish or a property like publish: true."
+		},
+		publishExcludeRules: {
+			title: "Never Publish Notes Matching",
+			description: "Comma separated rules, for example draft: true, #private. Matching notes are not exported, and links to them and embeds of them are removed from other pages."
+		},
+		createRedirects: {
+			title: "Redirect Moved Pages",
+			description: "When a note is renamed or moved, or its permalink or slug changes, write a page at its old location which redirects to the new one. Not available when exporting as a zip archive."
+		},
+		redirectsFile: {
+			title: "Write _redirects File",
+			description: "Also list all redirects in a _redirects file at the root of the site, as used by Netlify and Cloudflare Pages. The site url is used as the base path."
+		},
+		folderIndexPages: {
+			title: "Create Folder Pages",
+			description: "Give every exported folder a page, so folders in the file navigation can be opened. A note inside the folder with the folder's name, or named index, is used as its page. Other folders get a generated page listing their notes and subfolders."
+		},
+		contentApi: {
+			title: "Export JSON Content API",
+			description: "Also write a JSON file for every page with its metadata and rendered content, and an index of all pages, to site-lib/api. Other tools can read the site from these files instead of parsing the pages."
+		},
 		includePluginCSS: {
 			title: "Incluir CSS de Plugins",
 			description: "Inclui CSS de plugins na exportação do HTML. Se recursos do plugin não renderizarem corretamente, adicione o plugin nessa lista. Evite adicionar plugins sem necessidade, pois isso aumenta o tempo de carregamento da sua página, quanto mais CSS for incluído."
@@ -193,6 +343,10 @@ export const language: i18n =
 			title: "Caminho da Home",
 			description: "URL ou caminho aberto pelo ícone de home na barra superior",
 		},
+		layoutTemplate: {
+			title: "Layout Template",
+			description: "An .html file from your vault which replaces the page layout. Place the built in parts with <slot name=\"...\"> elements: topbar-left, topbar-title, topbar-right, left-sidebar, content, right-sidebar and footer. {{siteName}}, {{vaultName}}, {{homeLink}} and {{title}} are replaced by their values. The sidebars and the content should stay inside an element with the id main-horizontal. Leave empty to use the built in layout."
+		},
 		iconEmojiStyle: {
 			title: "Estilo de Emoji para Ícones",
 			description: "Estilo de emoji usado para ícones personalizados",
@@ -229,5 +383,17 @@ export const language: i18n =
 			title: "Propriedade de Título",
 			description: "Propriedade a ser usada como título do documento",
 		},
+		permalinkProperty: {
+			title: "Permalink Property",
+			description: "The property a note can use to set its own path in the site, like blog/my-post or about/. Renaming the note keeps this URL.",
+		},
+		slugProperty: {
+			title: "Slug Property",
+			description: "The property a note can use to set its own file name in the site while staying in its folder.",
+		},
+		rssDateProperty: {
+			title: "Date Property",
+			description: "The property holding the publish date of a note, used to date and sort feed items. Notes without it use their modified time.",
+		},
 	}
 }
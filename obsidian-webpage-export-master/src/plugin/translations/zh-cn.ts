@@ -25,6 +25,8 @@ export const language: i18n =
 		moreOptions: "更多选项请查看插件设置页面。",
 		openAfterExport: "导出后打开",
 		exportButton: "导出",
+		dryRunButton: "试运行",
+		dryRunDescription: "预览将要新建、更新和删除的文件，但不写入任何内容。",
 		filePicker:
 		{
 			title: "选择导出库中的所有文件",
@@ -51,6 +53,42 @@ export const language: i18n =
 			confirmation: "您确定吗？",
 			clearWarning: "此操作将删除站点的元数据（但不会删除所有导出的HTML文件）。\n\n这将强制站点重新导出所有文件。\n\n此外，如果您在再次导出之前更改了选定的导出文件，某些文件可能会保留在文件系统中未使用。\n\n此操作不可撤销。",
 		},
+		profile:
+		{
+			title: "导出配置",
+			description: "每个配置都有独立的导出设置、所选文件和导出路径。",
+			name: "配置名称",
+			newProfile: "新建配置",
+			create: "创建",
+			deleteProfile: "删除配置",
+			deleteConfirmation: "确定删除导出配置 \"{0}\" 吗？",
+			invalidName: "配置名称不能为空且不能重复。",
+			duplicateCommand: "配置 \"{0}\" 和 \"{1}\" 的名称仅在大小写或标点上不同，因此只有第一个会有导出命令。请重命名其中一个。",
+		},
+	},
+	exportPlan:
+	{
+		title: "导出预览",
+		description: "未写入任何内容。导出到 \"{0}\" 将执行以下操作：",
+		nothingToDo: "导出已是最新，没有文件会发生变化。",
+		newFiles: "新增",
+		updatedFiles: "更新",
+		deletedFiles: "删除",
+		unchangedFiles: "未变化",
+		close: "关闭",
+	},
+	liveExport:
+	{
+		enabled: "已启用实时导出",
+		disabled: "已停用实时导出",
+		invalidDestination: "已跳过实时导出：请先在设置中设置有效的导出路径。",
+	},
+	previewServer:
+	{
+		started: "正在 {0} 预览网站",
+		stopped: "预览服务器已停止",
+		noSite: "没有可预览的内容：请先将网站导出到导出路径。",
+		failed: "无法在端口 {0} 上启动预览服务器，该端口可能已被其他程序占用。",
 	},
 	settings:
 	{
@@ -135,6 +173,14 @@ export const language: i18n =
 			info_sourcePath: "包含的本地HTML文件路径。",
 			validationError: "必须是一个指向HTML文件的路径。"
 		},
+		customFeatures: {
+			title: "自定义功能",
+			description: "在每个页面上显示库中某个 .html 或 .md 文件的内容，例如横幅、页脚或联系方式。每个功能都有自己的位置和标题。",
+			add: "添加功能",
+			remove: "删除功能",
+			info_sourcePath: "功能所显示内容的 .html 或 .md 文件的本地路径。",
+			validationError: "必须是 .html 或 .md 文件的路径"
+		},
 		backlinks: {
 			title: "反向链接",
 			description: "显示链接到当前文档的所有文档。"
@@ -143,7 +189,9 @@ export const language: i18n =
 			title: "标签",
 			description: "显示当前打开文档的标签。",
 			info_showInlineTags: "在页面顶部显示文档内定义的标签。",
-			info_showFrontmatterTags: "在页面顶部显示文档前置区域定义的标签。"
+			info_showFrontmatterTags: "在页面顶部显示文档前置区域定义的标签。",
+			info_tagPages: "将标签链接到列出所有带有该标签的笔记的页面，并生成所有标签的概览页面。关闭时，点击标签会改为搜索该标签，这需要启用搜索。",
+			overviewTitle: "标签"
 		},
 		aliases: {
 			title: "别名",
@@ -159,7 +207,49 @@ export const language: i18n =
 			description: "为导出的站点生成RSS源",
 			info_siteUrl: "此站点将托管的URL",
 			info_siteUrlPlaceholder: "https://example.com/mysite",
-			info_authorName: "站点作者的名称"
+			info_authorName: "站点作者的名称",
+			info_atomFeed: "同时写入 Atom 订阅源",
+			info_jsonFeed: "同时写入 JSON Feed 订阅源",
+			info_scopedFeeds: "以逗号分隔的文件夹、标签或属性，例如 Blog/、#news 或 type: post。每一项都会生成单独的订阅源，并在其包含的页面中链接。",
+			info_fullContent: "包含每个页面的完整内容，而不是简短描述",
+			info_maxItems: "每个订阅源中的最大条目数，0 表示不限制",
+			info_sortByDate: "按日期属性而不是修改时间排序条目",
+			info_excludeUndated: "不包含没有日期属性的页面",
+			info_excludeFolders: "以逗号分隔的文件夹，其中的页面不会出现在订阅源中"
+		},
+		sitemap: {
+			title: "站点地图",
+			description: "为搜索引擎生成 sitemap.xml 和 robots.txt。需要在 RSS 设置中填写网站 URL。",
+			info_unlistedProperty: "此属性为 true 的笔记不会出现在站点地图中",
+			info_canonicalLinks: "为每个页面添加指向其公开网址的 canonical 链接",
+			info_robotsTxt: "写入一个向搜索引擎指明站点地图的 robots.txt",
+			info_robotsDisallow: "以逗号分隔的路径，搜索引擎不应抓取这些路径"
+		},
+		languages: {
+			title: "多语言",
+			description: "将有多种语言版本的笔记（如 Guide.md 和 Guide.zh.md）归为一组，通过 hreflang 相互关联，并显示语言切换器。",
+			info_languageProperty: "保存笔记语言的属性。没有该属性时，使用文件名中的语言后缀或默认语言",
+			info_translationKeyProperty: "此属性值相同的笔记互为语言版本，与文件名无关",
+			info_defaultLanguage: "没有语言属性或后缀的笔记所使用的语言",
+			info_languageNames: "语言切换器中显示的名称，用逗号分隔，例如 en: English, zh: 中文",
+			info_filterFileTree: "文件树中只显示当前语言的页面",
+			info_filterSearch: "只显示当前语言的搜索结果"
+		},
+		blog: {
+			title: "博客",
+			description: "按时间从新到旧分页列出文件夹中的笔记，生成按年和按月的归档页面，并链接到上一篇和下一篇文章。文章日期取自 RSS 日期属性，没有时使用最后修改时间。",
+			info_folder: "存放文章的仓库文件夹",
+			info_postsPerPage: "每页列出的文章数量",
+			info_yearlyArchives: "为每一年创建列出其文章的页面",
+			info_monthlyArchives: "为每个月创建列出其文章的页面",
+			info_postNavigation: "在每篇文章中链接上一篇和下一篇文章",
+			pageTitle: "{0} - 第 {1} 页",
+			archiveTitle: "{0} - {1}",
+			archives: "归档",
+			newerPosts: "较新的文章",
+			olderPosts: "较早的文章",
+			previousPost: "上一篇",
+			nextPost: "下一篇"
 		},
 		styleOptionsSection: {
 			title: "样式选项",
@@ -169,6 +259,66 @@ export const language: i18n =
 			title: "使页面离线兼容",
 			description: "下载所有在线资源、图像、脚本，使页面可以离线查看，或者使网站不依赖CDN。"
 		},
+		zipOutput: {
+			title: "导出为 Zip 压缩包",
+			description: "将网站写入导出文件夹中的单个 .zip 文件，而不是一个文件夹。压缩包始终包含整个网站。"
+		},
+		renderConcurrency: {
+			title: "并行渲染数",
+			description: "同时渲染的文件数量。数值越大，大型仓库导出越快，但会占用更多内存。"
+		},
+		liveExport: {
+			title: "实时导出",
+			description: "当导出的文件被创建、修改、重命名或删除时，自动重新导出到导出路径。只会重新渲染受影响的页面。"
+		},
+		liveExportDelay: {
+			title: "实时导出延迟",
+			description: "最后一次修改后等待多少秒再开始导出。"
+		},
+		previewServerPort: {
+			title: "预览服务器端口",
+			description: "“预览导出的网站”命令启动的本地预览服务器所使用的端口。通过它打开的页面会在每次导出后自动刷新。"
+		},
+		buildReport: {
+			title: "生成构建报告",
+			description: "写入 site-lib/build-report.json，列出每个导出文件的状态（新增、更新、跳过或删除）、渲染耗时以及警告和错误。"
+		},
+		buildReportHTML: {
+			title: "生成 HTML 构建报告",
+			description: "同时在 JSON 报告旁写入一个便于阅读的 site-lib/build-report.html。"
+		},
+		checkLinks: {
+			title: "检查链接",
+			description: "导出后检查所有链接和嵌入，找出缺失的页面、缺失的附件以及无效的标题锚点，并在日志中列出。"
+		},
+		failOnBrokenLinks: {
+			title: "存在失效链接时导出失败",
+			description: "当链接检查发现任何失效链接时，使导出失败。"
+		},
+		publishIncludeRules: {
+			title: "仅发布匹配的笔记",
+			description: "以逗号分隔的规则。设置后，只导出至少匹配一条规则的笔记。规则可以是标签（如 #publish）或属性（如 publish: true）。"
+		},
+		publishExcludeRules: {
+			title: "从不发布匹配的笔记",
+			description: "以逗号分隔的规则，例如 draft: true, #private。匹配的笔记不会被导出，其他页面中指向它们的链接和嵌入也会被移除。"
+		},
+		createRedirects: {
+			title: "重定向已移动的页面",
+			description: "当笔记被重命名或移动，或其永久链接或 slug 改变时，在旧位置写入一个重定向到新位置的页面。导出为 zip 压缩包时不可用。"
+		},
+		redirectsFile: {
+			title: "写入 _redirects 文件",
+			description: "同时在网站根目录的 _redirects 文件中列出所有重定向，供 Netlify 和 Cloudflare Pages 使用。网站 URL 用作基础路径。"
+		},
+		folderIndexPages: {
+			title: "创建文件夹页面",
+			description: "为每个导出的文件夹创建一个页面，使文件导航中的文件夹可以打开。文件夹中与文件夹同名或名为 index 的笔记将用作其页面，其他文件夹会生成一个列出其笔记和子文件夹的页面。"
+		},
+		contentApi: {
+			title: "导出 JSON 内容接口",
+			description: "同时将每个页面的元数据和渲染后的内容写入一个 JSON 文件，并生成所有页面的索引，保存在 site-lib/api 中。其他工具可以读取这些文件，而无需解析页面。"
+		},
 		includePluginCSS: {
 			title: "包含插件的CSS",
 			description: "在导出的HTML中包含以下插件的CSS。如果插件功能未正确呈现，请尝试将插件添加到此列表中。避免无必要添加插件，因为更多的CSS会增加页面的加载时间。"
@@ -193,6 +343,10 @@ export const language: i18n =
 			title: "主页路径",
 			description: "点击顶部主页图标后跳转到的 URL 或路径",
 		},
+		layoutTemplate: {
+			title: "布局模板",
+			description: "用库中的一个 .html 文件替换页面布局。使用 <slot name=\"...\"> 元素放置内置部分：topbar-left、topbar-title、topbar-right、left-sidebar、content、right-sidebar 和 footer。{{siteName}}、{{vaultName}}、{{homeLink}} 和 {{title}} 会被替换为对应的值。侧边栏和内容应放在 id 为 main-horizontal 的元素内。留空则使用内置布局。"
+		},
 		iconEmojiStyle: {
 			title: "图标表情符号样式",
 			description: "用于自定义图标的表情符号样式",
@@ -229,5 +383,17 @@ export const language: i18n =
 			title: "标题属性",
 			description: "用作文档标题的属性",
 		},
+		permalinkProperty: {
+			title: "永久链接属性",
+			description: "笔记可以用此属性设置自己在网站中的路径，例如 blog/my-post 或 about/。重命名笔记时该网址保持不变。",
+		},
+		slugProperty: {
+			title: "Slug 属性",
+			description: "笔记可以用此属性设置自己在网站中的文件名，同时保留所在文件夹。",
+		},
+		rssDateProperty: {
+			title: "日期属性",
+			description: "保存笔记发布日期的属性，用于订阅源条目的日期和排序。没有该属性的笔记使用其修改时间。",
+		},
 	}
 }
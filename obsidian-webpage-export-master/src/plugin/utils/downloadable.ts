@@ -1,6 +1,7 @@
 import { ExportPipelineOptions } from "src/plugin/website/pipeline-options.js";
 import { Path } from "./path";
 import { FileStats, TFile } from "obsidian";
+import { ExportHooks } from "src/plugin/export-hooks";
 
 export class Attachment
 {
@@ -17,6 +18,11 @@ export class Attachment
 	public showInTree: boolean = false;
 	public treeOrder: number = 0;
 
+	/**
+	 * Whether the target path is already relative to the root of the site, like a permalink, so the export root is not removed from it.
+	 */
+	protected targetIsRootRelative: boolean = false;
+
 	public get filename() { return this.targetPath.fullName; }
 	public get basename() { return this.targetPath.basename; }
 	public get extension() { return this.targetPath.extension; }
@@ -39,7 +45,7 @@ export class Attachment
 	public set targetPath(target: Path)
 	{
 		target.slugify(this.exportOptions.slugifyPaths);
-		target = this.removeRootFromPath(target);
+		if (!this.targetIsRootRelative) target = this.removeRootFromPath(target);
 		this._targetPath = target;
 	}
 
@@ -81,6 +87,8 @@ export class Attachment
 			throw new Error("(working dir) Target should be a relative path with the working directory set to the root: " + this.targetPath.absoluted().path);
 		}
 
+		if (!await ExportHooks.trigger("beforeDownload", this)) return;
+
 		const data = this.data instanceof Buffer ? this.data : Buffer.from(this.data.toString());
 		await this.targetPath.write(data);
 	}
@@ -178,4 +178,18 @@ export namespace Utils
 		}
 		return arr[string2.length][string1.length];
 	  };
+
+	/**
+	 * A fast non-cryptographic hash (32 bit FNV-1a) for detecting changed content.
+	 */
+	export function hashString(str: string): string
+	{
+		let hash = 0x811c9dc5;
+		for (let i = 0; i < str.length; i++)
+		{
+			hash ^= str.charCodeAt(i);
+			hash = Math.imul(hash, 0x01000193);
+		}
+		return (hash >>> 0).toString(16).padStart(8, "0");
+	}
 }
@@ -0,0 +1,146 @@
+import { deflateRawSync } from "zlib";
+
+interface ZipEntry
+{
+	name: Buffer;
+	crc: number;
+	compressedSize: number;
+	size: number;
+	method: number;
+	time: number;
+	date: number;
+	offset: number;
+}
+
+/**
+ * Builds a zip archive in memory. Files are deflated unless that doesn't make them smaller.
+ * Zip64 is not supported, so adding files past 65535 entries or 4 GB throws instead of writing a broken archive.
+ */
+export class ZipArchive
+{
+	private static readonly maxEntries = 0xffff;
+	private static readonly maxSize = 0xffffffff;
+	private static crcTable: Uint32Array | undefined = undefined;
+
+	private chunks: Buffer[] = [];
+	private entries: ZipEntry[] = [];
+	private names: Set<string> = new Set();
+	private offset: number = 0;
+
+	/**
+	 * Adds a file to the archive. Later files with the same path are ignored.
+	 * @param path The path of the file inside the archive, with forward slashes.
+	 */
+	public addFile(path: string, data: string | Buffer, modified: Date = new Date())
+	{
+		path = path.replaceAll("\\", "/").replace(/^\/+/, "");
+		if (path == "" || this.names.has(path)) return;
+		if (this.entries.length >= ZipArchive.maxEntries)
+			throw new Error(`A zip archive cannot hold more than ${ZipArchive.maxEntries} files, export to a folder instead.`);
+		this.names.add(path);
+
+		const content = typeof data == "string" ? Buffer.from(data, "utf-8") : data;
+		const deflated = deflateRawSync(content);
+		const compress = deflated.length < content.length;
+		const stored = compress ? deflated : content;
+
+		if (content.length > ZipArchive.maxSize || this.offset + 30 + Buffer.byteLength(path, "utf-8") + stored.length > ZipArchive.maxSize)
+			throw new Error(`A zip archive cannot be larger than 4 GB, export to a folder instead. The limit was reached at ${path}.`);
+
+		const name = Buffer.from(path, "utf-8");
+		const entry: ZipEntry =
+		{
+			name: name,
+			crc: ZipArchive.crc32(content),
+			compressedSize: stored.length,
+			size: content.length,
+			method: compress ? 8 : 0,
+			time: (modified.getHours() << 11) | (modified.getMinutes() << 5) | Math.floor(modified.getSeconds() / 2),
+			date: (Math.max(modified.getFullYear() - 1980, 0) << 9) | ((modified.getMonth() + 1) << 5) | modified.getDate(),
+			offset: this.offset,
+		};
+
+		const header = Buffer.alloc(30);
+		header.writeUInt32LE(0x04034b50, 0);
+		header.writeUInt16LE(20, 4);
+		header.writeUInt16LE(0x0800, 6); // utf-8 file names
+		header.writeUInt16LE(entry.method, 8);
+		header.writeUInt16LE(entry.time, 10);
+		header.writeUInt16LE(entry.date, 12);
+		header.writeUInt32LE(entry.crc, 14);
+		header.writeUInt32LE(entry.compressedSize, 18);
+		header.writeUInt32LE(entry.size, 22);
+		header.writeUInt16LE(name.length, 26);
+		header.writeUInt16LE(0, 28);
+
+		this.chunks.push(header, name, stored);
+		this.offset += header.length + name.length + stored.length;
+		this.entries.push(entry);
+	}
+
+	public get fileCount(): number
+	{
+		return this.entries.length;
+	}
+
+	/**
+	 * Finishes the archive by appending the central directory.
+	 */
+	public toBuffer(): Buffer
+	{
+		const directory: Buffer[] = [];
+		let directorySize = 0;
+		for (const entry of this.entries)
+		{
+			const header = Buffer.alloc(46);
+			header.writeUInt32LE(0x02014b50, 0);
+			header.writeUInt16LE(20, 4);
+			header.writeUInt16LE(20, 6);
+			header.writeUInt16LE(0x0800, 8);
+			header.writeUInt16LE(entry.method, 10);
+			header.writeUInt16LE(entry.time, 12);
+			header.writeUInt16LE(entry.date, 14);
+			header.writeUInt32LE(entry.crc, 16);
+			header.writeUInt32LE(entry.compressedSize, 20);
+			header.writeUInt32LE(entry.size, 24);
+			header.writeUInt16LE(entry.name.length, 28);
+			header.writeUInt32LE(entry.offset, 42);
+
+			directory.push(header, entry.name);
+			directorySize += header.length + entry.name.length;
+		}
+
+		if (this.offset + directorySize > ZipArchive.maxSize)
+			throw new Error("A zip archive cannot be larger than 4 GB, export to a folder instead.");
+
+		const end = Buffer.alloc(22);
+		end.writeUInt32LE(0x06054b50, 0);
+		end.writeUInt16LE(this.entries.length, 8);
+		end.writeUInt16LE(this.entries.length, 10);
+		end.writeUInt32LE(directorySize, 12);
+		end.writeUInt32LE(this.offset, 16);
+
+		return Buffer.concat([...this.chunks, ...directory, end]);
+	}
+
+	private static crc32(data: Buffer): number
+	{
+		if (!ZipArchive.crcTable)
+		{
+			ZipArchive.crcTable = new Uint32Array(256);
+			for (let i = 0; i < 256; i++)
+			{
+				let c = i;
+				for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+				ZipArchive.crcTable[i] = c >>> 0;
+			}
+		}
+
+		let crc = 0xffffffff;
+		for (let i = 0; i < data.length; i++)
+		{
+			crc = ZipArchive.crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+		}
+		return (crc ^ 0xffffffff) >>> 0;
+	}
+}
@@ -0,0 +1,255 @@
+import { TFile, moment } from "obsidian";
+import { Path } from "src/plugin/utils/path";
+import { ExportLog } from "src/plugin/render-api/render-api";
+import { i18n } from "src/plugin/translations/language";
+import { ExportPipelineOptions } from "src/plugin/website/pipeline-options.js";
+import { Feeds } from "./feeds";
+import { ListingItem, ListingPage } from "./listing-page";
+import { PublishFilter } from "./publish-filter";
+import { Webpage } from "./webpage";
+import { Website } from "./website";
+
+export interface BlogPost
+{
+	exportPath: string;
+	source: TFile;
+	date: Date;
+
+	/**
+	 * The webpage of the post, if it is exported this time.
+	 */
+	webpage?: Webpage;
+}
+
+interface BlogArchive
+{
+	/**
+	 * The year like 2024, or the year and month like 2024-03.
+	 */
+	key: string;
+
+	/**
+	 * The year, or the month's name and year, used as the archive's link text.
+	 */
+	name: string;
+	page: ListingPage;
+	posts: BlogPost[];
+}
+
+/**
+ * Runs a blog from a folder of the vault: its notes are listed newest first on paginated pages,
+ * with a page for every year and month, and every post links to the posts before and after it.
+ * Posts are dated like the items of the feeds, by their date property or when they were last modified.
+ */
+export class Blog
+{
+	public static readonly pageFolderName = "page";
+	public static readonly archiveFolderName = "archive";
+	public static readonly indexFileName = "index.html";
+
+	private website: Website;
+	private posts: BlogPost[] = [];
+	private pages: (ListingPage | undefined)[] = [];
+	private archives: BlogArchive[] = [];
+
+	constructor(website: Website)
+	{
+		this.website = website;
+	}
+
+	public static isEnabled(options: ExportPipelineOptions): boolean
+	{
+		return options.blogOptions.enabled && Blog.getFolder(options) != "" && !options.combineAsSingleFile;
+	}
+
+	/**
+	 * The vault path of the blog's folder, without a trailing slash.
+	 */
+	public static getFolder(options: ExportPipelineOptions): string
+	{
+		return options.blogOptions.folder.trim().replace(/^\/+|\/+$/g, "");
+	}
+
+	private get folder(): string
+	{
+		return Blog.getFolder(this.website.exportOptions);
+	}
+
+	private get title(): string
+	{
+		return this.folder.split("/").pop() ?? this.folder;
+	}
+
+	/**
+	 * Finds the posts of the blog, links every post to the posts before and after it, and reserves the paths of the listing pages.
+	 * Posts exported before and not in this export are kept, so exporting a few posts does not cut the blog down to them.
+	 * Must run after all webpages were added to the index, and before the folder pages are found.
+	 * Unchanged posts whose neighbours changed since the last export are marked as updated.
+	 */
+	public findPosts()
+	{
+		const index = this.website.index;
+		const options = this.website.exportOptions.blogOptions;
+
+		// the metadata only has the pages of earlier exports yet, so the webpages of this export are added to them
+		const pages = new Map<string, TFile>(index.getNotePages().map((page): [string, TFile] => [page.exportPath, page.source]));
+		for (const webpage of index.webpages) pages.set(webpage.targetPath.path, webpage.source);
+
+		this.posts = Array.from(pages.entries())
+			.filter(([, source]) => PublishFilter.matches(source, this.folder + "/"))
+			.map(([exportPath, source]) => ({ exportPath: exportPath, source: source, date: Feeds.getNoteDate(source).date, webpage: index.getWebpage(source.path) }))
+			.sort((a, b) => b.date.getTime() - a.date.getTime() || a.source.path.localeCompare(b.source.path));
+
+		if (this.posts.length == 0)
+		{
+			ExportLog.warning(`The blog has no posts, because no exported notes are in the folder ${this.folder}.`);
+			return;
+		}
+
+		// the previous post is the older one, like in the list of posts
+		for (let i = 0; i < this.posts.length; i++)
+		{
+			const webpage = this.posts[i].webpage;
+			if (!webpage) continue;
+			webpage.previousPost = this.posts[i + 1];
+			webpage.nextPost = this.posts[i - 1];
+		}
+
+		// posts which are not exported this time keep the links they were written with
+		if (options.postNavigation)
+		{
+			const changed = new Set([...index.newFiles, ...index.updatedFiles]);
+			for (const { webpage } of this.posts)
+			{
+				if (!webpage || changed.has(webpage)) continue;
+				const oldData = index.getOldWebpage(webpage.targetPath.path);
+				if (!oldData) continue;
+
+				// the links show the titles of the neighbours, which may have changed with them
+				const neighbours = [webpage.previousPost?.webpage, webpage.nextPost?.webpage];
+				if ((oldData.previousPost ?? "") != (webpage.previousPost?.exportPath ?? "")
+					|| (oldData.nextPost ?? "") != (webpage.nextPost?.exportPath ?? "")
+					|| neighbours.some((neighbour) => neighbour && changed.has(neighbour)))
+					index.updatedFiles.push(webpage);
+			}
+		}
+
+		const claimedPaths = new Set(index.allFiles.map((file) => file.targetPath.path));
+		const reserve = (page: ListingPage): ListingPage | undefined =>
+		{
+			if (claimedPaths.has(page.targetPath.path))
+			{
+				ExportLog.warning(`The blog page ${page.title} is not created, because another file is exported to ${page.targetPath.path}.`);
+				return undefined;
+			}
+
+			claimedPaths.add(page.targetPath.path);
+			return page;
+		};
+
+		const folderPath = new Path(this.folder);
+		const postsPerPage = Math.max(1, Math.floor(options.postsPerPage) || 1);
+		const pageCount = Math.ceil(this.posts.length / postsPerPage);
+		this.pages = [];
+		for (let number = 1; number <= pageCount; number++)
+		{
+			const title = number == 1 ? this.title : i18n.settings.blog.pageTitle.format(this.title, number.toString());
+			const page = new ListingPage(this.website, folderPath.joinString(Blog.pageFolderName, number + ".html").path, title, "blog-listing");
+			if (number > 1)
+			{
+				this.pages.push(reserve(page));
+				continue;
+			}
+
+			// the first page is the index of the folder, unless the folder has a note there already
+			const indexPage = new ListingPage(this.website, folderPath.joinString(Blog.indexFileName).path, title, "blog-listing");
+			this.pages.push(reserve(claimedPaths.has(indexPage.targetPath.path) ? page : indexPage));
+		}
+
+		this.archives = [];
+		const archives = new Map<string, BlogArchive>();
+		for (const post of this.posts)
+		{
+			const year = post.date.getFullYear().toString();
+			const month = year + "-" + (post.date.getMonth() + 1).toString().padStart(2, "0");
+			const keys = [...(options.yearlyArchives ? [year] : []), ...(options.monthlyArchives ? [month] : [])];
+			for (const key of keys)
+			{
+				let archive = archives.get(key);
+				if (!archive)
+				{
+					const name = key == year ? year : post.date.toLocaleDateString(moment.locale(), { year: "numeric", month: "long" });
+					const path = folderPath.joinString(Blog.archiveFolderName, key + ".html").path;
+					const page = reserve(new ListingPage(this.website, path, i18n.settings.blog.archiveTitle.format(this.title, name), "blog-archive"));
+					if (!page) continue;
+					archive = { key: key, name: name, page: page, posts: [] };
+					archives.set(key, archive);
+					this.archives.push(archive);
+				}
+
+				archive.posts.push(post);
+			}
+		}
+	}
+
+	/**
+	 * The first listing page of the blog if the given folder is the blog's folder, which is used as the page of the folder.
+	 */
+	public getIndexPage(folderPath: string): ListingPage | undefined
+	{
+		return folderPath == this.folder ? this.pages[0] : undefined;
+	}
+
+	/**
+	 * Fills the listing pages with the posts and adds them to the index.
+	 * Must run after every webpage was built, so the pages can list them.
+	 */
+	public async create()
+	{
+		const options = this.website.exportOptions.blogOptions;
+		const webpages = this.website.index.websiteData.webpages;
+		const getItem = (post: BlogPost): ListingItem | undefined =>
+		{
+			const data = webpages[post.exportPath];
+			if (!data) return undefined;
+			return { title: data.title, href: data.exportPath, description: data.description, date: post.date.getTime() };
+		};
+
+		// link every listing to the archives of the years, or of the months without yearly archives
+		const linkedArchives = this.archives.filter((archive) => options.yearlyArchives ? archive.key.length == 4 : true);
+		const archiveLinks = linkedArchives.map((archive) => ({ title: archive.name, href: archive.page.targetPath.path, count: archive.posts.length }));
+
+		const postsPerPage = Math.max(1, Math.floor(options.postsPerPage) || 1);
+		const fillPage = (page: ListingPage, posts: BlogPost[]) =>
+		{
+			page.items = posts.map(getItem).filter((item): item is ListingItem => item != undefined);
+			page.links = archiveLinks;
+			page.linksTitle = i18n.settings.blog.archives;
+		};
+
+		let count = 0;
+		for (let i = 0; i < this.pages.length; i++)
+		{
+			const page = this.pages[i];
+			if (!page) continue;
+
+			fillPage(page, this.posts.slice(i * postsPerPage, (i + 1) * postsPerPage));
+			const newer = this.pages[i - 1];
+			const older = this.pages[i + 1];
+			page.previousPage = newer ? { title: i18n.settings.blog.newerPosts, href: newer.targetPath.path } : undefined;
+			page.nextPage = older ? { title: i18n.settings.blog.olderPosts, href: older.targetPath.path } : undefined;
+
+			await page.addToIndex(i == 0 ? this.folder : new Path(this.folder).joinString(Blog.pageFolderName, (i + 1).toString()).path);
+			count++;
+		}
+
+		for (const archive of this.archives)
+		{
+			fillPage(archive.page, archive.posts);
+			await archive.page.addToIndex(new Path(this.folder).joinString(Blog.archiveFolderName, archive.key).path);
+			count++;
+		}
+
+		if (count > 0) ExportLog.log(`Created ${count} blog pages for ${this.posts.length} posts`);
+	}
+}
@@ -0,0 +1,295 @@
+import { Attachment } from "src/plugin/utils/downloadable";
+import { AssetHandler } from "src/plugin/asset-loaders/asset-handler";
+import { AssetType } from "src/plugin/asset-loaders/asset-types";
+import { ExportLog } from "src/plugin/render-api/render-api";
+import HTMLExportPlugin from "src/plugin/main";
+import { Shared } from "src/shared/shared";
+import { Website } from "./website";
+
+export enum BuildFileStatus
+{
+	New = "new",
+	Updated = "updated",
+	Skipped = "skipped",
+	Deleted = "deleted",
+	Failed = "failed",
+
+	/**
+	 * Picked for the export, but left out by the publish rules or an export hook.
+	 */
+	Excluded = "excluded",
+}
+
+export interface BuildReportFile
+{
+	/**
+	 * The vault path of the source file, undefined for generated files.
+	 */
+	source: string | undefined;
+	target: string;
+	status: BuildFileStatus;
+
+	/**
+	 * The time in milliseconds it took to render and build the file, undefined if it was not rendered.
+	 */
+	renderTime: number | undefined;
+	warnings: string[];
+	errors: string[];
+}
+
+export interface BuildReportData
+{
+	pluginVersion: string;
+	siteName: string;
+	startTime: number;
+	endTime: number;
+	duration: number;
+	cancelled: boolean;
+	counts: Record<BuildFileStatus, number>;
+	files: BuildReportFile[];
+
+	/**
+	 * Warnings and errors which could not be attributed to a single file.
+	 */
+	warnings: string[];
+	errors: string[];
+}
+
+/**
+ * Records what happens to every file during a build so it can be written next to the site as build-report.json.
+ */
+export class BuildReport
+{
+	private website: Website;
+	private startTime: number = Date.now();
+	private endTime: number = Date.now();
+	private renderTimes: Map<string, number> = new Map();
+	private renderStarts: Map<string, number> = new Map();
+	private fileWarnings: Map<string, string[]> = new Map();
+	private fileErrors: Map<string, string[]> = new Map();
+	private warnings: string[] = [];
+	private errors: string[] = [];
+	private attempted: Set<string> = new Set();
+	private excluded: Set<string> = new Set();
+	private listening: boolean = false;
+	private listener = (entry: ExportLog.LogEntry) => this.onLog(entry);
+
+	public data: BuildReportData | undefined = undefined;
+
+	constructor(website: Website)
+	{
+		this.website = website;
+	}
+
+	/**
+	 * Starts timing the export and collecting warnings and errors from the ExportLog.
+	 * Called when the website starts loading, calling it again while collecting does nothing.
+	 */
+	public begin()
+	{
+		if (this.listening) return;
+		this.startTime = Date.now();
+		ExportLog.addListener(this.listener);
+		this.listening = true;
+	}
+
+	/**
+	 * Stops collecting log messages. Safe to call more than once.
+	 */
+	public end()
+	{
+		this.endTime = Date.now();
+		if (!this.listening) return;
+		ExportLog.removeListener(this.listener);
+		this.listening = false;
+	}
+
+	public excludeFile(sourcePath: string)
+	{
+		this.excluded.add(sourcePath);
+	}
+
+	public startFile(sourcePath: string)
+	{
+		this.attempted.add(sourcePath);
+		this.renderStarts.set(sourcePath, performance.now());
+	}
+
+	public endFile(sourcePath: string)
+	{
+		const start = this.renderStarts.get(sourcePath);
+		if (start == undefined) return;
+		this.renderStarts.delete(sourcePath);
+		this.renderTimes.set(sourcePath, Math.round(performance.now() - start));
+	}
+
+	private onLog(entry: ExportLog.LogEntry)
+	{
+		if (entry.level == "info") return;
+
+		const text = entry.title != "" ? `${entry.title} ${entry.message}` : entry.message;
+		const isError = entry.level == "error" || entry.level == "fatal";
+
+		// attribute the message to a file which is mentioned in it,
+		// otherwise to the only file being rendered right now
+		const active = Array.from(this.renderStarts.keys());
+		let sourcePath = active.find((path) => text.includes(path));
+		if (!sourcePath && active.length == 1) sourcePath = active[0];
+
+		if (!sourcePath)
+		{
+			(isError ? this.errors : this.warnings).push(text);
+			return;
+		}
+
+		const map = isError ? this.fileErrors : this.fileWarnings;
+		const list = map.get(sourcePath) ?? [];
+		list.push(text);
+		map.set(sourcePath, list);
+	}
+
+	/**
+	 * Generates the report from the current state of the website index.
+	 * @param deletedFiles The target paths of the files that were deleted from the destination.
+	 * @param cancelled Whether the export was cancelled, or failed, before it finished.
+	 */
+	public generate(deletedFiles: string[], cancelled: boolean = false): BuildReportData
+	{
+		this.end();
+
+		const index = this.website.index;
+		const files: BuildReportFile[] = [];
+		const createFile = (source: string | undefined, target: string, status: BuildFileStatus): BuildReportFile =>
+		{
+			return {
+				source: source,
+				target: target,
+				status: status,
+				renderTime: source ? this.renderTimes.get(source) : undefined,
+				warnings: source ? this.fileWarnings.get(source) ?? [] : [],
+				errors: source ? this.fileErrors.get(source) ?? [] : [],
+			};
+		}
+
+		const listed = new Set<string>();
+		for (const file of index.allFiles)
+		{
+			let status = BuildFileStatus.Skipped;
+			if (index.newFiles.includes(file)) status = BuildFileStatus.New;
+			else if (index.updatedFiles.includes(file)) status = BuildFileStatus.Updated;
+
+			files.push(createFile(file.sourcePath, file.targetPath.path, status));
+			if (file.sourcePath) listed.add(file.sourcePath);
+		}
+
+		// webpages which were rendered but never made it into the index failed to render or build
+		for (const source of this.attempted)
+		{
+			if (listed.has(source)) continue;
+			const webpage = index.getWebpage(source);
+			files.push(createFile(source, webpage?.targetPath.path ?? "", BuildFileStatus.Failed));
+		}
+
+		for (const source of this.excluded)
+		{
+			files.push(createFile(source, "", BuildFileStatus.Excluded));
+		}
+
+		for (const target of deletedFiles)
+		{
+			files.push(createFile(undefined, target, BuildFileStatus.Deleted));
+		}
+
+		const counts = {} as Record<BuildFileStatus, number>;
+		for (const status of Object.values(BuildFileStatus))
+		{
+			counts[status] = files.filter((file) => file.status == status).length;
+		}
+
+		this.data =
+		{
+			pluginVersion: HTMLExportPlugin.pluginVersion,
+			siteName: this.website.exportOptions.siteName ?? "",
+			startTime: this.startTime,
+			endTime: this.endTime,
+			duration: this.endTime - this.startTime,
+			cancelled: cancelled,
+			counts: counts,
+			files: files,
+			warnings: this.warnings,
+			errors: this.errors,
+		};
+
+		return this.data;
+	}
+
+	public jsonAttachment(): Attachment
+	{
+		const data = this.data ?? this.generate([]);
+		const path = AssetHandler.generateSavePath(Shared.buildReportFileName, AssetType.Other, this.website.destination);
+		return new Attachment(JSON.stringify(data, null, 2), path, null, this.website.exportOptions);
+	}
+
+	public htmlAttachment(): Attachment
+	{
+		const data = this.data ?? this.generate([]);
+		const path = () => AssetHandler.generateSavePath(Shared.buildReportHTMLFileName, AssetType.Other, this.website.destination);
+		const attachment = new Attachment(BuildReport.toHTML(data), path(), null, this.website.exportOptions);
+		// the constructor renames html attachments to avoid clashing with webpages, which is not needed here
+		attachment.targetPath = path();
+		return attachment;
+	}
+
+	private static escape(text: string): string
+	{
+		return text.replaceAll("&", "&amp;").replaceAll("<", "&lt;").replaceAll(">", "&gt;").replaceAll('"', "&quot;");
+	}
+
+	public static toHTML(data: BuildReportData): string
+	{
+		const esc = BuildReport.escape;
+		const messages = (list: string[], cls: string) => list.map((message) => `<div class="${cls}">${esc(message)}</div>`).join("");
+
+		const rows = data.files.map((file) =>
+		`<tr class="status-${file.status}">
+			<td>${esc(file.source ?? "")}</td>
+			<td>${esc(file.target)}</td>
+			<td>${file.status}</td>
+			<td>${file.renderTime != undefined ? file.renderTime + " ms" : ""}</td>
+			<td>${messages(file.warnings, "warning")}${messages(file.errors, "error")}</td>
+		</tr>`).join("\n");
+
+		const counts = Object.entries(data.counts).map(([status, count]) => `<li>${status}: ${count}</li>`).join("");
+
+		return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="UTF-8">
+<title>Build Report - ${esc(data.siteName)}</title>
+<style>
+	body { font-family: sans-serif; margin: 2em; }
+	table { border-collapse: collapse; width: 100%; }
+	th, td { border: 1px solid #8884; padding: 4px 8px; text-align: left; vertical-align: top; font-size: 0.9em; }
+	.status-new td:nth-child(3) { color: green; }
+	.status-updated td:nth-child(3) { color: royalblue; }
+	.status-deleted td:nth-child(3), .status-failed td:nth-child(3) { color: crimson; }
+	.status-excluded td:nth-child(3) { color: gray; }
+	.warning { color: darkorange; white-space: pre-wrap; }
+	.error { color: crimson; white-space: pre-wrap; }
+</style>
+</head>
+<body>
+<h1>Build Report - ${esc(data.siteName)}</h1>
+<p>Exported ${new Date(data.endTime).toLocaleString()} in ${(data.duration / 1000).toFixed(1)} s with plugin version ${esc(data.pluginVersion)}${data.cancelled ? " (cancelled)" : ""}.</p>
+<ul>${counts}</ul>
+${messages(data.warnings, "warning")}${messages(data.errors, "error")}
+<table>
+<thead><tr><th>Source</th><th>Target</th><th>Status</th><th>Render Time</th><th>Messages</th></tr></thead>
+<tbody>
+${rows}
+</tbody>
+</table>
+</body>
+</html>`;
+	}
+}
@@ -0,0 +1,176 @@
+import { Attachment } from "src/plugin/utils/downloadable";
+import { Path } from "src/plugin/utils/path";
+import { AssetHandler } from "src/plugin/asset-loaders/asset-handler";
+import { ExportLog } from "src/plugin/render-api/render-api";
+import { Utils } from "src/plugin/utils/utils";
+import { WebpageData } from "src/shared/website-data";
+import { Website } from "./website";
+
+/**
+ * The file written for every page: its metadata and its rendered content.
+ */
+export interface ContentApiPage
+{
+	title: string;
+	exportPath: string;
+	sourcePath: string;
+
+	/**
+	 * The url of the page, absolute if the site url is set.
+	 */
+	url: string;
+	description: string;
+	author: string;
+	icon: string;
+	coverImageURL: string;
+	headers: {heading: string, level: number, id: string}[];
+	aliases: string[];
+	frontmatterTags: string[];
+	inlineTags: string[];
+
+	/**
+	 * The export paths of the pages and files this page links to, and of the pages linking to it.
+	 */
+	links: string[];
+	backlinks: string[];
+	language?: string;
+	translations?: {[language: string]: string};
+	createdTime: number;
+	modifiedTime: number;
+
+	/**
+	 * The rendered document of the page. Its links are relative to the site root.
+	 */
+	html: string;
+}
+
+/**
+ * The index of all pages, which links to the file of each page.
+ */
+export interface ContentApiIndex
+{
+	siteName: string;
+	baseURL: string;
+	modifiedTime: number;
+	pages:
+	{
+		title: string;
+		exportPath: string;
+
+		/**
+		 * The path of the page's file relative to the site root.
+		 */
+		apiPath: string;
+		description: string;
+		tags: string[];
+		modifiedTime: number;
+	}[];
+}
+
+/**
+ * Writes a JSON file for every page with its metadata and rendered content, and an index of all pages,
+ * so other tools can read the site without parsing its pages or the frontend's metadata.
+ * Files are written to site-lib/api: the index to index.json, and each page to pages/ at its export path with a .json extension.
+ */
+export class ContentApi
+{
+	public static readonly folderName = "api";
+	public static readonly pagesFolderName = "pages";
+	public static readonly indexFileName = "index.json";
+
+	private website: Website;
+
+	constructor(website: Website)
+	{
+		this.website = website;
+	}
+
+	/**
+	 * The path of a page's file relative to the site root.
+	 */
+	public static getPagePath(exportPath: string): Path
+	{
+		return AssetHandler.libraryPath.joinString(ContentApi.folderName, ContentApi.pagesFolderName, exportPath.replace(/\.html$/, "") + ".json");
+	}
+
+	/**
+	 * Adds the file of every exported note, and the index, to the index of the website.
+	 * Notes exported before and not in this export are included too, with their content read from the destination.
+	 * Must run after every webpage was built, so their content can be read.
+	 */
+	public async create()
+	{
+		const index = this.website.index;
+		const backlinks = index.getBacklinks();
+		const entries: ContentApiIndex["pages"] = [];
+
+		for (const { data } of index.getNotePages())
+		{
+			const contentEl = await this.website.readPageContent(data.sourcePath, data.exportPath);
+			if (!contentEl)
+			{
+				ExportLog.warning(`The content of ${data.exportPath} could not be read, so it is not written to the content api.`);
+				continue;
+			}
+
+			const page = this.createPage(data, backlinks.get(data.sourcePath) ?? [], contentEl.innerHTML);
+			const path = ContentApi.getPagePath(data.exportPath);
+			await this.addFile(path, JSON.stringify(page, null, 2));
+
+			entries.push(
+			{
+				title: data.title,
+				exportPath: data.exportPath,
+				apiPath: path.path,
+				description: data.description ?? "",
+				tags: Array.from(new Set([...(data.frontmatterTags ?? []), ...(data.inlineTags ?? [])])),
+				modifiedTime: data.modifiedTime,
+			});
+		}
+
+		entries.sort((a, b) => a.exportPath.localeCompare(b.exportPath));
+		const apiIndex: ContentApiIndex =
+		{
+			siteName: index.websiteData.siteName,
+			baseURL: index.websiteData.baseURL,
+			modifiedTime: Math.max(0, ...entries.map((entry) => entry.modifiedTime)),
+			pages: entries,
+		};
+		await this.addFile(AssetHandler.libraryPath.joinString(ContentApi.folderName, ContentApi.indexFileName), JSON.stringify(apiIndex, null, 2));
+
+		ExportLog.log(`Wrote the content api for ${entries.length} pages`);
+	}
+
+	private createPage(data: WebpageData, backlinks: string[], html: string): ContentApiPage
+	{
+		return {
+			title: data.title,
+			exportPath: data.exportPath,
+			sourcePath: data.sourcePath,
+			url: data.fullURL,
+			description: data.description ?? "",
+			author: data.author ?? "",
+			icon: data.icon ?? "",
+			coverImageURL: data.coverImageURL ?? "",
+			headers: data.headers,
+			aliases: data.aliases,
+			frontmatterTags: data.frontmatterTags ?? [],
+			inlineTags: data.inlineTags ?? [],
+			links: data.links,
+			backlinks: backlinks,
+			language: data.language,
+			translations: data.translations,
+			createdTime: data.createdTime,
+			modifiedTime: data.modifiedTime,
+			html: html,
+		};
+	}
+
+	private async addFile(path: Path, data: string)
+	{
+		const file = new Attachment(data, path.setWorkingDirectory(this.website.destination.path), null, this.website.exportOptions);
+		// only count the file as updated when its content changes
+		file.sourceStat = { ctime: 0, mtime: parseInt(Utils.hashString(data), 16), size: data.length };
+		await this.website.index.addFile(file);
+	}
+}
@@ -2,40 +2,131 @@ import { InsertedFeatureOptions } from "src/shared/features/feature-options-base
 import { TFile } from "obsidian";
 import { Attachment } from "src/plugin/utils/downloadable";
 import { AssetLoader } from "src/plugin/asset-loaders/base-asset";
-import { Aliases } from "src/frontend/main/aliases";
+import { AssetHandler } from "src/plugin/asset-loaders/asset-handler";
+import { GraphView } from "src/plugin/features/graph-view";
+import { ThemeToggle } from "src/plugin/features/theme-toggle";
+import { SearchInput } from "src/plugin/features/search-input";
+import { CustomFeature } from "src/plugin/features/custom-feature";
+import { Path } from "src/plugin/utils/path";
+import { ExportHooks } from "src/plugin/export-hooks";
 import { ExportPipelineOptions } from "./pipeline-options";
+import { Website } from "./website";
 
+/**
+ * A feature which is generated once per export and inserted into the template every page is built from.
+ */
+export interface TemplateFeature
+{
+	/**
+	 * Where and whether the feature is inserted. Features which are not enabled are skipped.
+	 */
+	options: InsertedFeatureOptions;
 
+	/**
+	 * Creates the feature's element, or html string. Runs after the website was loaded, so its index and file tree exist.
+	 */
+	generate: (website: Website) => Promise<HTMLElement | string | undefined>;
+}
 
+/**
+ * Everything a website export is built from: the files to export, the features inserted into every page,
+ * and the assets and attachments written next to them.
+ * Other plugins can add to it before it is built, or add to the pipeline of the plugin's own exports through the `configurePipeline` hook.
+ */
 export class WebsiteExportPipeline
 {
 	public files: TFile[];
-	public features: InsertedFeatureOptions[] = [];
+	public features: TemplateFeature[] = [];
 	public assets: AssetLoader[] = [];
 	public attachments: Attachment[] = [];
 	public options: ExportPipelineOptions = new ExportPipelineOptions();
 
-	public static createDefault(options: ExportPipelineOptions): WebsiteExportPipeline
+	/**
+	 * The pipeline of a normal export, with the graph view, theme toggle, search, file tree, custom head content and the user's custom features.
+	 * @param files The files to export, all files of the vault by default.
+	 */
+	public static createDefault(options: ExportPipelineOptions, files?: TFile[]): WebsiteExportPipeline
 	{
 		const pipeline = new WebsiteExportPipeline();
 		pipeline.options = options;
-		pipeline.files = app.vault.getFiles();
-		pipeline.features = [
-			options.tagOptions,
-			options.aliasOptions,
-			options.searchOptions,
-			options.outlineOptions,
-			options.backlinkOptions,
-			options.graphViewOptions,
-			options.propertiesOptions,
-			options.themeToggleOptions,
-			options.fileNavigationOptions,
-			options.customHeadOptions
-		];
-		pipeline.assets = [];
-		pipeline.attachments = [];
+		pipeline.files = files ?? app.vault.getFiles();
 
+		pipeline.addFeature(options.graphViewOptions, async () => await new GraphView().generate());
+		pipeline.addFeature(options.themeToggleOptions, async () => await new ThemeToggle().generate());
+		pipeline.addFeature(options.searchOptions, async () => await new SearchInput().generate());
+		pipeline.addFeature(options.fileNavigationOptions, async (website) =>
+		{
+			const container = document.body.createDiv();
+			container.innerHTML = website.fileTreeAsset.getHTML(website.exportOptions);
+			const fileTreeEl = container.firstElementChild as HTMLElement;
+			container.remove();
+			return fileTreeEl;
+		});
+		pipeline.addFeature(options.customHeadOptions, async (website) => AssetHandler.customHeadContent.getHTML(website.exportOptions));
+		for (const feature of options.customFeatures)
+		{
+			pipeline.addFeature(feature, async () => await new CustomFeature().generate(undefined, feature));
+		}
 
 		return pipeline;
 	}
+
+	/**
+	 * Adds a feature to the template. Features are inserted in the order they were added.
+	 */
+	public addFeature(options: InsertedFeatureOptions, generate: (website: Website) => Promise<HTMLElement | string | undefined>): this
+	{
+		this.features.push({ options: options, generate: generate });
+		return this;
+	}
+
+	/**
+	 * Adds an asset which is downloaded, linked or inlined like the built in ones, according to its inline policy.
+	 * Create it with `Mutability.Temporary`, so it is not carried over into later exports.
+	 */
+	public addAsset(asset: AssetLoader): this
+	{
+		this.assets.push(asset);
+		return this;
+	}
+
+	/**
+	 * Adds a file which is written to the website as it is.
+	 * Its target path is relative to the root of the website.
+	 */
+	public addAttachment(attachment: Attachment): this
+	{
+		this.attachments.push(attachment);
+		return this;
+	}
+
+	/**
+	 * Creates the website and loads the pipeline's files into it, without rendering anything.
+	 */
+	public async load(destination: Path): Promise<Website>
+	{
+		await ExportHooks.trigger("configurePipeline", this);
+
+		const website = new Website(destination, this.options);
+		website.pipeline = this;
+		try
+		{
+			return await website.load(this.files);
+		}
+		catch (error)
+		{
+			// the website is never returned, so stop its report collecting the log
+			website.report.end();
+			throw error;
+		}
+	}
+
+	/**
+	 * Loads and builds the website.
+	 * @returns The website, or undefined if the export was cancelled.
+	 */
+	public async build(destination: Path): Promise<Website | undefined>
+	{
+		return await (await this.load(destination)).build();
+	}
 }
@@ -0,0 +1,392 @@
+import { TFile } from "obsidian";
+import RSS from 'rss';
+import { Attachment } from "src/plugin/utils/downloadable";
+import { Path } from "src/plugin/utils/path";
+import { Settings } from "src/plugin/settings/settings";
+import { AssetHandler } from "src/plugin/asset-loaders/asset-handler";
+import { AssetType } from "src/plugin/asset-loaders/asset-types";
+import { Utils } from "src/plugin/utils/utils";
+import { ExportPipelineOptions } from "src/plugin/website/pipeline-options.js";
+import { PublishFilter } from "./publish-filter";
+import { Sitemap } from "./sitemap";
+import { Website } from "./website";
+
+export enum FeedFormat
+{
+	RSS = "rss",
+	Atom = "atom",
+	JSON = "json",
+}
+
+/**
+ * A feed of the whole site, or of the pages matching a scope like "Blog/", "#news" or "type: post".
+ */
+export interface FeedDefinition
+{
+	/**
+	 * Used in the file names of the feed, empty for the site feed.
+	 */
+	id: string;
+	title: string;
+
+	/**
+	 * A publish filter rule, empty for the site feed.
+	 */
+	scope: string;
+}
+
+export interface FeedItem
+{
+	title: string;
+	url: string;
+	guid: string;
+	date: Date;
+	modified: Date;
+	author: string;
+	description: string;
+	image: string;
+
+	/**
+	 * The rendered page with absolute urls, only read when the feeds include the full content.
+	 */
+	content?: string;
+	sourcePath: string;
+	exportPath: string;
+}
+
+/**
+ * Writes the site feed and the scoped feeds in every enabled format.
+ * Feeds are built from the metadata of all exported pages, so pages which were not rendered in this export are included too.
+ */
+export class Feeds
+{
+	private website: Website;
+
+	constructor(website: Website)
+	{
+		this.website = website;
+	}
+
+	/**
+	 * The site feed followed by the scoped feeds from the rss options.
+	 */
+	public static getFeeds(options: ExportPipelineOptions): FeedDefinition[]
+	{
+		const feeds: FeedDefinition[] = [{ id: "", title: options.siteName || app.vault.getName(), scope: "" }];
+
+		for (const scope of PublishFilter.parseRules(options.rssOptions.scopedFeeds ?? ""))
+		{
+			const label = scope.replace(/^#/, "").replace(/\/$/, "");
+			const id = label.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, "-").replace(/^-+|-+$/g, "");
+			if (id == "" || feeds.some((feed) => feed.id == id)) continue;
+			feeds.push({ id, title: `${feeds[0].title} - ${label}`, scope });
+		}
+
+		return feeds;
+	}
+
+	public static getFormats(options: ExportPipelineOptions): FeedFormat[]
+	{
+		const formats = [FeedFormat.RSS];
+		if (options.rssOptions.atomFeed) formats.push(FeedFormat.Atom);
+		if (options.rssOptions.jsonFeed) formats.push(FeedFormat.JSON);
+		return formats;
+	}
+
+	/**
+	 * The path of a feed file relative to the site root, e.g. site-lib/rss.xml or site-lib/atom-blog.xml.
+	 */
+	public static getFeedPath(feed: FeedDefinition, format: FeedFormat): Path
+	{
+		const name = format == FeedFormat.JSON ? "feed" : format;
+		const extension = format == FeedFormat.JSON ? ".json" : ".xml";
+		const fileName = (feed.id == "" ? name : `${name}-${feed.id}`) + extension;
+		return AssetHandler.generateSavePath(fileName, AssetType.Other, new Path(""));
+	}
+
+	/**
+	 * The absolute url of a feed if the site url is set, otherwise its path relative to the site root.
+	 * Pages set their base to the site root, so the relative path resolves from every page.
+	 */
+	public static getFeedURL(feed: FeedDefinition, format: FeedFormat, options: ExportPipelineOptions): string
+	{
+		const path = Feeds.getFeedPath(feed, format).path;
+		return Sitemap.getURL(path, options) || path;
+	}
+
+	/**
+	 * The alternate links of the given feeds in every enabled format.
+	 */
+	public static getAlternateLinks(feeds: FeedDefinition[], options: ExportPipelineOptions): string
+	{
+		const types =
+		{
+			[FeedFormat.RSS]: "application/rss+xml",
+			[FeedFormat.Atom]: "application/atom+xml",
+			[FeedFormat.JSON]: "application/feed+json",
+		};
+
+		let links = "";
+		for (const feed of feeds)
+		{
+			for (const format of Feeds.getFormats(options))
+			{
+				const title = Feeds.escape(`${feed.title} (${format == FeedFormat.JSON ? "JSON Feed" : format.toUpperCase()})`);
+				links += `<link rel="alternate" type="${types[format]}" title="${title}" href="${Feeds.getFeedURL(feed, format, options)}">`;
+			}
+		}
+
+		return links;
+	}
+
+	/**
+	 * The scoped feeds containing the file, whose links are added to the file's page.
+	 */
+	public static getScopedFeedsFor(file: TFile, options: ExportPipelineOptions): FeedDefinition[]
+	{
+		return Feeds.getFeeds(options).filter((feed) => feed.scope != "" && PublishFilter.matches(file, feed.scope));
+	}
+
+	/**
+	 * The date of a note from its date property, or when it was last modified if the property is missing or not a date.
+	 */
+	public static getNoteDate(file: TFile): { date: Date, hasDate: boolean }
+	{
+		const frontmatterDate = app.metadataCache.getFileCache(file)?.frontmatter?.[Settings.rssDateProperty];
+		const date = frontmatterDate ? new Date(frontmatterDate) : new Date(NaN);
+		const hasDate = !isNaN(date.getTime());
+		return { date: hasDate ? date : new Date(file.stat.mtime), hasDate };
+	}
+
+	/**
+	 * Adds the files of every feed in every enabled format to the index.
+	 */
+	public async create()
+	{
+		const options = this.website.exportOptions;
+		const index = this.website.index;
+		const rssOptions = options.rssOptions;
+		const items = new Map<string, FeedItem>();
+		const sources = new Map<string, TFile>();
+		const excludedFolders = PublishFilter.parseRules(rssOptions.excludeFolders ?? "").map((folder) => folder.replace(/\/?$/, "/"));
+
+		for (const { exportPath, data, source } of index.getNotePages())
+		{
+			if (excludedFolders.some((folder) => PublishFilter.matches(source, folder))) continue;
+
+			const modified = new Date(source.stat.mtime);
+			const { date, hasDate } = Feeds.getNoteDate(source);
+			if (rssOptions.excludeUndated && !hasDate) continue;
+
+			items.set(exportPath,
+			{
+				title: data.title,
+				url: Sitemap.getURL(exportPath, options) || exportPath,
+				guid: data.sourcePath,
+				date: date,
+				modified: modified,
+				author: data.author || options.rssOptions.authorName || "",
+				description: data.description ?? "",
+				image: data.coverImageURL ?? "",
+				sourcePath: data.sourcePath,
+				exportPath: exportPath,
+			});
+			sources.set(exportPath, source);
+		}
+
+		for (const feed of Feeds.getFeeds(options))
+		{
+			const feedItems = Array.from(items.entries())
+				.filter(([exportPath]) => feed.scope == "" || PublishFilter.matches(sources.get(exportPath) as TFile, feed.scope))
+				.map(([, item]) => item)
+				.sort((a, b) => rssOptions.sortByDate ? b.date.getTime() - a.date.getTime() : b.modified.getTime() - a.modified.getTime());
+
+			if (rssOptions.maxItems > 0) feedItems.splice(rssOptions.maxItems);
+
+			if (rssOptions.fullContent)
+			{
+				for (const item of feedItems)
+				{
+					item.content ??= await this.readContent(item);
+				}
+			}
+
+			for (const format of Feeds.getFormats(options))
+			{
+				const data = this.generate(feed, format, feedItems);
+				const path = Feeds.getFeedPath(feed, format).setWorkingDirectory(this.website.destination.path);
+				const file = new Attachment(data, path, null, options);
+				// only count the feed as updated when its content changes
+				file.sourceStat = { ctime: 0, mtime: parseInt(Utils.hashString(data), 16), size: data.length };
+				await index.addFile(file);
+			}
+		}
+	}
+
+	/**
+	 * Reads the document of an exported page, with its links and embeds made absolute so it can be shown by feed readers.
+	 */
+	private async readContent(item: FeedItem): Promise<string | undefined>
+	{
+		const contentEl = await this.website.readPageContent(item.sourcePath, item.exportPath);
+		if (!contentEl) return undefined;
+
+		const siteUrl = this.website.exportOptions.rssOptions.siteUrl ?? "";
+		if (siteUrl != "")
+		{
+			// links in the pages are relative to the site root, which is set as their base
+			const root = siteUrl.replace(/\/?$/, "/");
+			for (const attribute of ["href", "src"])
+			{
+				contentEl.querySelectorAll(`[${attribute}]`).forEach((el) =>
+				{
+					const value = el.getAttribute(attribute) ?? "";
+					try
+					{
+						const absolute = value.startsWith("#") ? item.url + value : new URL(value, root).href;
+						el.setAttribute(attribute, absolute);
+					}
+					catch { /* keep the link as it is */ }
+				});
+			}
+		}
+
+		return contentEl.innerHTML;
+	}
+
+	private generate(feed: FeedDefinition, format: FeedFormat, items: FeedItem[]): string
+	{
+		switch (format)
+		{
+			case FeedFormat.Atom:
+				return this.generateAtom(feed, items);
+			case FeedFormat.JSON:
+				return this.generateJSON(feed, items);
+			default:
+				return this.generateRSS(feed, items);
+		}
+	}
+
+	private generateRSS(feed: FeedDefinition, items: FeedItem[]): string
+	{
+		const options = this.website.exportOptions;
+		const author = options.rssOptions.authorName || undefined;
+
+		const rss = new RSS(
+		{
+			title: feed.title,
+			description: "Obsidian digital garden",
+			generator: "Webpage HTML Export plugin for Obsidian",
+			feed_url: Feeds.getFeedURL(feed, FeedFormat.RSS, options),
+			site_url: options.rssOptions.siteUrl ?? "",
+			image_url: Sitemap.getURL(AssetHandler.favicon.targetPath.path, options),
+			pubDate: new Date(this.website.index.websiteData.modifiedTime),
+			copyright: author,
+			ttl: 60,
+			custom_namespaces:
+			{
+				content: "http://purl.org/rss/1.0/modules/content/",
+			},
+			custom_elements:
+			[
+				{ "dc:creator": author },
+			]
+		});
+
+		for (const item of items)
+		{
+			const hasMedia = item.image != "";
+			let content: string | undefined = item.content;
+			if (!content && hasMedia) content = `<figure><img src="${item.image}"></figure>`;
+
+			rss.item(
+			{
+				title: item.title,
+				description: item.description,
+				url: item.url,
+				guid: item.guid,
+				date: item.date,
+				enclosure: hasMedia ? { url: item.image } : undefined,
+				author: item.author || undefined,
+				custom_elements:
+				[
+					content ? { "content:encoded": { _cdata: content } } : undefined,
+				]
+			});
+		}
+
+		return rss.xml();
+	}
+
+	private generateAtom(feed: FeedDefinition, items: FeedItem[]): string
+	{
+		const options = this.website.exportOptions;
+		const siteUrl = options.rssOptions.siteUrl ?? "";
+		const feedURL = Feeds.getFeedURL(feed, FeedFormat.Atom, options);
+		const updated = new Date(this.website.index.websiteData.modifiedTime).toISOString();
+		const author = options.rssOptions.authorName || feed.title;
+		const e = Feeds.escape;
+
+		let xml = `<?xml version="1.0" encoding="utf-8"?>\n<feed xmlns="http://www.w3.org/2005/Atom">\n`;
+		xml += `\t<title>${e(feed.title)}</title>\n`;
+		xml += `\t<id>${e(feedURL)}</id>\n`;
+		xml += `\t<updated>${updated}</updated>\n`;
+		if (siteUrl != "") xml += `\t<link href="${e(siteUrl)}"/>\n`;
+		xml += `\t<link rel="self" type="application/atom+xml" href="${e(feedURL)}"/>\n`;
+		xml += `\t<author><name>${e(author)}</name></author>\n`;
+		xml += `\t<generator>Webpage HTML Export plugin for Obsidian</generator>\n`;
+
+		for (const item of items)
+		{
+			xml += `\t<entry>\n`;
+			xml += `\t\t<title>${e(item.title)}</title>\n`;
+			xml += `\t\t<id>${e(item.url)}</id>\n`;
+			xml += `\t\t<link rel="alternate" type="text/html" href="${e(item.url)}"/>\n`;
+			xml += `\t\t<published>${item.date.toISOString()}</published>\n`;
+			xml += `\t\t<updated>${item.modified.toISOString()}</updated>\n`;
+			if (item.author != "") xml += `\t\t<author><name>${e(item.author)}</name></author>\n`;
+			xml += `\t\t<summary>${e(item.description)}</summary>\n`;
+			if (item.content) xml += `\t\t<content type="html">${e(item.content)}</content>\n`;
+			xml += `\t</entry>\n`;
+		}
+
+		xml += `</feed>\n`;
+		return xml;
+	}
+
+	private generateJSON(feed: FeedDefinition, items: FeedItem[]): string
+	{
+		const options = this.website.exportOptions;
+		const siteUrl = options.rssOptions.siteUrl ?? "";
+		const author = options.rssOptions.authorName;
+
+		const json =
+		{
+			version: "https://jsonfeed.org/version/1.1",
+			title: feed.title,
+			home_page_url: siteUrl || undefined,
+			feed_url: Feeds.getFeedURL(feed, FeedFormat.JSON, options),
+			authors: author ? [{ name: author }] : undefined,
+			items: items.map((item) => (
+			{
+				id: item.guid,
+				url: item.url,
+				title: item.title,
+				content_text: item.content ? undefined : item.description,
+				content_html: item.content,
+				summary: item.content ? item.description : undefined,
+				image: item.image || undefined,
+				date_published: item.date.toISOString(),
+				date_modified: item.modified.toISOString(),
+				authors: item.author ? [{ name: item.author }] : undefined,
+			})),
+		};
+
+		return JSON.stringify(json, null, "\t");
+	}
+
+	private static escape(text: string): string
+	{
+		return text.replaceAll("&", "&amp;").replaceAll("<", "&lt;").replaceAll(">", "&gt;").replaceAll('"', "&quot;").replaceAll("'", "&apos;");
+	}
+}
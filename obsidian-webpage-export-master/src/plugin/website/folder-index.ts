@@ -0,0 +1,157 @@
+import { TFolder } from "obsidian";
+import { Path } from "src/plugin/utils/path";
+import { ExportLog } from "src/plugin/render-api/render-api";
+import { ListingPage } from "./listing-page";
+import { Webpage } from "./webpage";
+import { Website } from "./website";
+
+interface FolderPage
+{
+	folder: TFolder;
+
+	/**
+	 * The note inside the folder used as its page, named like the folder or "index".
+	 */
+	note?: Webpage;
+
+	/**
+	 * The generated page listing the folder's contents, if the folder has no note.
+	 */
+	page?: ListingPage;
+
+	/**
+	 * A page listing the folder which is generated by another feature, like the index of the blog.
+	 */
+	listing?: ListingPage;
+}
+
+/**
+ * Gives every exported folder a page, so folders can be opened from the file tree and their urls resolve.
+ * A folder's own note is used when it has one, otherwise a page listing the folder's notes and subfolders
+ * is generated from the webpage template, like any other page.
+ */
+export class FolderIndex
+{
+	public static readonly indexFileName = "index.html";
+
+	private website: Website;
+	private folders: Map<string, FolderPage> = new Map();
+
+	constructor(website: Website)
+	{
+		this.website = website;
+	}
+
+	/**
+	 * Finds the folders of the exported pages and their folder notes.
+	 * Must run after all webpages were added to the index, and before the file tree is generated.
+	 */
+	public findFolders()
+	{
+		this.folders.clear();
+		const index = this.website.index;
+		const root = this.website.exportOptions.exportRoot ?? "";
+
+		for (const webpage of index.webpages)
+		{
+			let folder = webpage.source.parent;
+			while (folder && !folder.isRoot() && folder.path != root && !this.folders.has(folder.path))
+			{
+				this.folders.set(folder.path, { folder: folder });
+				folder = folder.parent;
+			}
+		}
+
+		const claimedPaths = new Set(index.allFiles.map((file) => file.targetPath.path));
+		for (const folderPage of this.folders.values())
+		{
+			const notes = index.webpages.filter((webpage) => webpage.source.parent == folderPage.folder);
+			folderPage.note = notes.find((webpage) => webpage.source.basename == folderPage.folder.name)
+				?? notes.find((webpage) => webpage.source.basename.toLowerCase() == "index");
+			if (folderPage.note) continue;
+
+			folderPage.listing = this.website.blog?.getIndexPage(folderPage.folder.path);
+			if (folderPage.listing) continue;
+
+			const path = new Path(folderPage.folder.path).joinString(FolderIndex.indexFileName).path;
+			const page = new ListingPage(this.website, path, folderPage.folder.name, "folder-index");
+			if (claimedPaths.has(page.targetPath.path))
+			{
+				ExportLog.warning(`The page of folder ${folderPage.folder.path} is not created, because another file is exported to ${page.targetPath.path}.`);
+				continue;
+			}
+
+			folderPage.page = page;
+		}
+	}
+
+	/**
+	 * The export paths of the folder pages, by the folder's path relative to the export root, as used by the file tree.
+	 */
+	public getFolderTargets(): Map<string, string>
+	{
+		const root = this.website.exportOptions.exportRoot ?? "";
+		const targets = new Map<string, string>();
+		for (const [folderPath, folderPage] of this.folders)
+		{
+			const targetPath = this.getTargetPath(folderPage);
+			if (!targetPath) continue;
+			targets.set(root == "" ? folderPath : folderPath.substring(root.length + 1), targetPath);
+		}
+
+		return targets;
+	}
+
+	/**
+	 * Generates the pages of the folders without a folder note and adds them to the index.
+	 * Must run after every webpage was built, so the pages can list them.
+	 */
+	public async create()
+	{
+		const index = this.website.index;
+		const generatedPaths = new Set(Array.from(this.folders.values()).map((folderPage) => (folderPage.page ?? folderPage.listing)?.targetPath.path));
+		const webpages = Object.entries(index.websiteData.webpages)
+			.filter(([exportPath]) => !index.deletedFiles.includes(exportPath) && !generatedPaths.has(exportPath))
+			.map(([, data]) => data);
+
+		let count = 0;
+		for (const [folderPath, folderPage] of this.folders)
+		{
+			const page = folderPage.page;
+			if (!page) continue;
+
+			const subfolders = Array.from(this.folders.values())
+				.filter((subfolder) => subfolder.folder.parent?.path == folderPath)
+				.sort((a, b) => a.folder.name.localeCompare(b.folder.name, undefined, { numeric: true }));
+			for (const subfolder of subfolders)
+			{
+				const href = this.getTargetPath(subfolder);
+				if (href) page.items.push({ title: subfolder.folder.name, href: href, isFolder: true });
+			}
+
+			const children = webpages
+				.filter((data) => FolderIndex.getParentPath(data.sourcePath) == folderPath)
+				.sort((a, b) => a.title.localeCompare(b.title, undefined, { numeric: true }));
+			for (const child of children)
+			{
+				page.items.push({ title: child.title, href: child.exportPath, description: child.description, date: child.modifiedTime });
+			}
+
+			await page.addToIndex(folderPath);
+			count++;
+		}
+
+		if (count > 0) ExportLog.log(`Created ${count} folder pages`);
+	}
+
+	private getTargetPath(folderPage: FolderPage): string | undefined
+	{
+		return (folderPage.note ?? folderPage.page ?? folderPage.listing)?.targetPath.path;
+	}
+
+	private static getParentPath(sourcePath: string): string
+	{
+		const separator = sourcePath.lastIndexOf("/");
+		return separator < 0 ? "" : sourcePath.substring(0, separator);
+	}
+}
@@ -9,7 +9,6 @@ import Minisearch from 'minisearch';
 import { Path } from "src/plugin/utils/path";
 import HTMLExportPlugin from "src/plugin/main";
 import { AssetType } from "src/plugin/asset-loaders/asset-types";
-import RSS from 'rss';
 import { AssetLoader } from "src/plugin/asset-loaders/base-asset";
 import { FileData, WebpageData, WebsiteData } from "src/shared/website-data";
 import { Utils } from "src/plugin/utils/utils";
@@ -42,10 +41,6 @@ export class Index
 	public oldWebsiteData: WebsiteData | undefined = undefined;
 	public websiteData: WebsiteData = {} as WebsiteData;
 	public minisearch: Minisearch<any> | undefined = undefined;
-	public rssFeed: RSS | undefined = undefined;
-	public rssPath: Path;
-	public rssURL: Path;
-	public rssAsset: AssetLoader | undefined = undefined;
 
 	public deletedFiles: string[] = [];
 	public newFiles: Attachment[] = [];
@@ -62,7 +57,8 @@ export class Index
 			// try to load website data
 			const metadataPath = this.website.destination.join(AssetHandler.libraryPath).joinString(Shared.metadataFileName);
 	
-			const metadata = await metadataPath.readAsString();
+			// a zip archive is always exported completely, so files from an earlier folder export are not reused
+			const metadata = options.zipOutput ? undefined : await metadataPath.readAsString();
 			if (metadata) 
 			{
 				this.oldWebsiteData = JSON.parse(metadata) as WebsiteData;
@@ -84,6 +80,7 @@ export class Index
 			if (!this.websiteData.webpages) this.websiteData.webpages = {};
 			if (!this.websiteData.fileInfo) this.websiteData.fileInfo = {};
 			if (!this.websiteData.sourceToTarget) this.websiteData.sourceToTarget = {};
+			if (!this.websiteData.redirects) this.websiteData.redirects = {};
 			this.websiteData.featureOptions = 
 			{
 				backlinks: options.backlinkOptions,
@@ -99,6 +96,8 @@ export class Index
 				customHead: options.customHeadOptions,
 				document: options.documentOptions,
 				rss: options.rssOptions,
+				sitemap: options.sitemapOptions,
+				languages: options.languageOptions,
 				linkPreview: options.linkPreviewOptions,
 			};
 			
@@ -122,7 +121,7 @@ export class Index
 		try
 		{			
 			const indexPath = this.website.destination.join(AssetHandler.libraryPath).joinString(Shared.searchIndexFileName);
-			const indexJson = await indexPath.readAsString();
+			const indexJson = options.zipOutput ? undefined : await indexPath.readAsString();
 			if (indexJson)
 			{
 				this.minisearch = Minisearch.loadJSON(indexJson, this.minisearchOptions);
@@ -134,9 +133,80 @@ export class Index
 			ExportLog.log(e, "No search-index.json exists. Creating new index.");
 			this.minisearch = new Minisearch(this.minisearchOptions);
 		}
+	}
+
+	/**
+	 * Marks unchanged webpages as updated when something they were built from has changed:
+	 * a file they embed was changed or deleted, one of their links or embeds resolves to a different file now,
+	 * a file they link to was added to or removed from the export, or the file tree which is inlined into every page is different.
+	 * Invalidation is followed through embeds, so a page embedding an invalidated page is rebuilt as well.
+	 * @param fileTreeHash The hash of the file tree if it is inlined into the pages, otherwise an empty string.
+	 */
+	public invalidateDependents(fileTreeHash: string)
+	{
+		this.websiteData.fileTreeHash = fileTreeHash;
+		if (!this.oldWebsiteData) return;
+
+		const rebuildAll = fileTreeHash != "" && fileTreeHash != (this.oldWebsiteData.fileTreeHash ?? "");
 
-		this.rssPath = AssetHandler.generateSavePath("rss.xml", AssetType.Other, this.website.destination);
-		this.rssURL = AssetHandler.generateSavePath("rss.xml", AssetType.Other, new Path(this.exportOptions.rssOptions.siteUrl ?? "")).absolute();
+		const changedSources = new Set<string>();
+		const addedOrRemovedSources = new Set<string>();
+		for (const file of [...this.newFiles, ...this.updatedFiles])
+		{
+			if (file.sourcePath) changedSources.add(file.sourcePath);
+		}
+
+		for (const file of this.newFiles)
+		{
+			if (file.sourcePath) addedOrRemovedSources.add(file.sourcePath);
+		}
+
+		for (const target of this.deletedFiles)
+		{
+			const sourcePath = this.oldWebsiteData.fileInfo?.[target]?.sourcePath;
+			if (!sourcePath) continue;
+			changedSources.add(sourcePath);
+			addedOrRemovedSources.add(sourcePath);
+		}
+
+		const sameItems = (a: string[], b: string[]) => a.length == b.length && a.every((item, i) => item == b[i]);
+		const invalidate = (webpage: Webpage) =>
+		{
+			this.updatedFiles.push(webpage);
+			changedSources.add(webpage.source.path);
+		}
+
+		// pages written by older versions have no dependencies stored and are only rebuilt when they change themselves
+		const unchanged: { webpage: Webpage, embeds: string[] }[] = [];
+		for (const file of this.allFiles)
+		{
+			if (!(file instanceof Webpage) || changedSources.has(file.source.path)) continue;
+			const oldData = this.getOldWebpage(file.targetPath.path);
+			if (!oldData?.embeddedFiles || !oldData.linkedFiles) continue;
+
+			const embeds = file.embeddedFiles;
+			const linksChanged = !sameItems(file.linkedFiles, oldData.linkedFiles) || oldData.linkedFiles.some((link) => addedOrRemovedSources.has(link));
+			if (rebuildAll || linksChanged || !sameItems(embeds, oldData.embeddedFiles))
+			{
+				invalidate(file);
+				continue;
+			}
+
+			unchanged.push({ webpage: file, embeds: embeds });
+		}
+
+		let invalidated = true;
+		while (invalidated)
+		{
+			invalidated = false;
+			for (const page of unchanged)
+			{
+				if (changedSources.has(page.webpage.source.path)) continue;
+				if (!page.embeds.some((embed) => changedSources.has(embed))) continue;
+				invalidate(page.webpage);
+				invalidated = true;
+			}
+		}
 	}
 
 	public async finalize()
@@ -145,6 +215,19 @@ export class Index
 		this.websiteData.shownInTree = this.attachmentsShownInTree.map((attachment) => attachment.targetPath.path);
 		this.websiteData.allFiles = this.allFiles.map((file) => file.targetPath.path);
 
+		// backlinks are read from the metadata by the page, so refresh them for unchanged pages too
+		const backlinks = this.getBacklinks();
+
+		for (const file of this.allFiles)
+		{
+			if (!(file instanceof Webpage)) continue;
+			const webpageInfo = this.websiteData.webpages[file.targetPath.path];
+			if (!webpageInfo) continue;
+			webpageInfo.backlinks = backlinks.get(file.source.path) ?? [];
+			const fileInfo = this.websiteData.fileInfo[file.targetPath.path];
+			if (fileInfo) fileInfo.backlinks = webpageInfo.backlinks;
+		}
+
 		// remove deleted files from website data
 		for (const file of this.deletedFiles)
 		{
@@ -164,6 +247,27 @@ export class Index
 		}
 	}
 
+	/**
+	 * The export paths of the pages linking to each file, by the file's vault path.
+	 */
+	public getBacklinks(): Map<string, string[]>
+	{
+		const backlinks = new Map<string, string[]>();
+		for (const [sourcePath, targets] of Object.entries(app.metadataCache.resolvedLinks))
+		{
+			const linkingPage = this.getWebpage(sourcePath);
+			if (!linkingPage) continue;
+			for (const target of Object.keys(targets))
+			{
+				const list = backlinks.get(target) ?? [];
+				list.push(linkingPage.targetPath.path);
+				backlinks.set(target, list);
+			}
+		}
+
+		return backlinks;
+	}
+
 	/**
 	 * Simply deletes metadata.json and search-index.json
 	 */
@@ -176,86 +280,6 @@ export class Index
 		await indexPath.delete();
 	}
 
-	public async createRSSFeed()
-	{
-		let author = this.exportOptions.rssOptions.authorName || undefined;
-
-		this.rssFeed = new RSS(
-		{
-			title: this.exportOptions.siteName ?? app.vault.getName(),
-			description: "Obsidian digital garden",
-			generator: "Webpage HTML Export plugin for Obsidian",
-			feed_url: this.rssURL.path,
-			site_url: this.exportOptions.rssOptions.siteUrl ?? "",
-			image_url: Path.joinStrings(this.exportOptions.rssOptions.siteUrl ?? "", AssetHandler.favicon.targetPath.path).path,
-			pubDate: new Date(this.websiteData.modifiedTime),
-			copyright: author,
-			ttl: 60,
-			custom_elements:
-			[
-				{ "dc:creator": author },
-			]
-		});
-		
-		for (const page of this.webpages)
-		{
-			const title = page.title;
-			const url = Path.joinStrings(this.exportOptions.rssOptions.siteUrl ?? "", page.targetPath.path).path;
-			const guid = page.source.path;
-			const date = page.outputData.rssDate ?? new Date(page.source.stat.mtime);
-			author = page.outputData.author ?? author;
-			const media = page.outputData.coverImageURL ?? "";
-			const hasMedia = media != "";
-			const description = page.outputData.descriptionOrShortenedContent;
-
-			this.rssFeed.item(
-			{ 
-				title: title,
-				description: description,
-				url: url,
-				guid: guid,
-				date: date,
-				enclosure: hasMedia ? { url: media } : undefined,
-				author: author,
-				custom_elements: 
-				[
-					hasMedia ? { "content:encoded": `<figure><img src="${media}"></figure>` } : undefined,
-				]
-			});
-		}
-
-		let rssXML = this.rssFeed.xml();
-
-		const rssFileOld = await this.rssPath.readAsString();
-		if (rssFileOld)
-		{
-			const rssDocOld = new DOMParser().parseFromString(rssFileOld, "text/xml");
-			const rssDocNew = new DOMParser().parseFromString(rssXML, "text/xml");
-
-			// insert old items into new rss and remove duplicates
-			let oldItems = Array.from(rssDocOld.querySelectorAll("item"));
-			let newItems = Array.from(rssDocNew.querySelectorAll("item"));
-
-			// filter out deleted files and remove duplicated items favoring the new rss
-			oldItems = oldItems.filter((oldItem) => !this.deletedFiles.includes(oldItem.querySelector("guid")?.textContent ?? ""));
-			oldItems = oldItems.filter((oldItem) => !newItems.some((newItem) => newItem.querySelector("guid")?.textContent == oldItem.querySelector("guid")?.textContent));
-			
-			// remove all items from new rss
-			newItems.forEach((item) => item.remove());
-			
-			
-			// add items back to new rss with old items
-			newItems = newItems.concat(oldItems);
-			const channel = rssDocNew.querySelector("channel");
-			newItems.forEach((item) => channel?.appendChild(item));
-
-			rssXML = rssDocNew.documentElement.outerHTML;
-		}
-
-		const rssAsset = new Attachment(rssXML, this.rssPath, null, this.exportOptions);
-		this.addFile(rssAsset);
-	}
-
 	public async addFile(file: Attachment | Webpage)
 	{
 		// determine if the file is new, updated, or unchanged
@@ -272,9 +296,11 @@ export class Index
 			const oldData = this.getOldFile(key);
 			if (oldData)
 			{
-				if (oldData.modifiedTime != file.sourceStat.mtime || oldData.sourceSize != file.sourceStat.size)
+				// files invalidated by one of their dependencies are already marked as updated
+				const invalidated = this.updatedFiles.includes(file);
+				if (invalidated || oldData.modifiedTime != file.sourceStat.mtime || oldData.sourceSize != file.sourceStat.size)
 				{
-					this.updatedFiles.push(file);
+					if (!invalidated) this.updatedFiles.push(file);
 					updatedFile = true;
 				}
 			}
@@ -331,6 +357,31 @@ export class Index
 		}
 	}
 
+	/**
+	 * Adds a page redirecting away from a path, which replaces the webpage previously exported there.
+	 */
+	public async addRedirect(redirectPage: Attachment)
+	{
+		const key = redirectPage.targetPath.path;
+		delete this.websiteData.webpages[key];
+		if (this.minisearch?.has(key)) this.minisearch.discard(key);
+
+		await this.addFile(redirectPage);
+	}
+
+	/**
+	 * Adds a generated page, like the page of a folder or tag, which is listed with the webpages so the site can navigate to it.
+	 */
+	public async addListingPage(listingPage: Attachment, info: WebpageData)
+	{
+		await this.addFile(listingPage);
+
+		const key = listingPage.targetPath.path;
+		this.websiteData.webpages[key] = info;
+		const fileInfo = this.websiteData.fileInfo[key];
+		if (fileInfo) fileInfo.type = info.type;
+	}
+
 	public async addFiles(files: (Attachment | Webpage)[])
 	{
 		for (const file of files)
@@ -405,6 +456,24 @@ export class Index
 		return this.oldWebsiteData?.webpages[targetPath];
 	}
 
+	/**
+	 * The pages of every note in the website, including the ones exported before and not in this export, with the note they were exported from.
+	 * Pages which are not exported from a note of the vault, like generated pages or the pages of deleted notes, are left out.
+	 */
+	public getNotePages(): { exportPath: string, data: WebpageData, source: TFile }[]
+	{
+		const pages: { exportPath: string, data: WebpageData, source: TFile }[] = [];
+		for (const [exportPath, data] of Object.entries(this.websiteData.webpages))
+		{
+			if (this.deletedFiles.includes(exportPath)) continue;
+			const source = this.getWebpage(data.sourcePath)?.source ?? app.vault.getAbstractFileByPath(data.sourcePath);
+			if (!(source instanceof TFile)) continue;
+			pages.push({ exportPath: exportPath, data: data, source: source });
+		}
+
+		return pages;
+	}
+
 	public async applyToOldWebpages(callback: (document: Document, oldData: WebpageData) => Promise<any>)
 	{
 		const promises: Promise<any>[] = [];
@@ -449,6 +518,13 @@ export class Index
 			webpageInfo.fullURL = webpage.outputData.fullURL;
 			webpageInfo.pathToRoot = webpage.outputData.pathToRoot == "" ? "." : webpage.outputData.pathToRoot;
 			webpageInfo.attachments = webpage.attachments.map((download) => download.targetPath.path);
+			webpageInfo.embeddedFiles = webpage.outputData.embeddedFiles;
+			webpageInfo.linkedFiles = webpage.outputData.linkedFiles;
+			if (Object.keys(webpage.overrides).length > 0) webpageInfo.overrides = webpage.overrides;
+			if (webpage.language != "") webpageInfo.language = webpage.language;
+			if (Object.keys(webpage.translations).length > 0) webpageInfo.translations = webpage.translations;
+			if (webpage.previousPost) webpageInfo.previousPost = webpage.previousPost.exportPath;
+			if (webpage.nextPost) webpageInfo.nextPost = webpage.nextPost.exportPath;
 			
 			webpageInfo.createdTime = webpage.source.stat.ctime;
 			webpageInfo.modifiedTime = webpage.source.stat.mtime;
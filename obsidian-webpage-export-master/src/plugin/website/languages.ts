@@ -0,0 +1,111 @@
+import { TFile } from "obsidian";
+import { ExportLog } from "src/plugin/render-api/render-api";
+import { Webpage } from "./webpage";
+import { Website } from "./website";
+
+/**
+ * Finds the language of every page and the other language variants of the same note.
+ * A page's language is its language property, or a language suffix in its file name like Guide.zh.md, or the default language.
+ * Variants share a translation key property, or have the same path apart from the language suffix.
+ */
+export class Languages
+{
+	private static readonly suffixPattern = /\.([a-z]{2,3}(?:-[A-Za-z0-9]{2,8})?)$/;
+
+	/**
+	 * A language code like en or pt-BR. Other values are ignored, because the codes are written into the pages as they are.
+	 */
+	private static readonly codePattern = /^[A-Za-z]{2,3}(-[A-Za-z0-9]{2,8})*$/;
+
+	private website: Website;
+
+	constructor(website: Website)
+	{
+		this.website = website;
+	}
+
+	/**
+	 * Sets the language and translations of every webpage in the website.
+	 * Unchanged pages whose language or variants changed since the last export are marked as updated.
+	 */
+	public assign()
+	{
+		const options = this.website.exportOptions.languageOptions;
+		const index = this.website.index;
+		const webpages = index.webpages;
+		let defaultLanguage = options.defaultLanguage.trim() || "en";
+		if (!Languages.codePattern.test(defaultLanguage))
+		{
+			ExportLog.warning(`The default language "${defaultLanguage}" is not a language code like en or pt-BR, so en is used instead.`);
+			defaultLanguage = "en";
+		}
+
+		// a suffix only counts as a language when another note has the same name without it,
+		// so file names which happen to end in something like ".v2" are left alone
+		const unsuffixedKeys = new Set(webpages.map((webpage) => this.getPathKey(webpage.source)));
+
+		const groups = new Map<string, Webpage[]>();
+		for (const webpage of webpages)
+		{
+			const frontmatter = app.metadataCache.getFileCache(webpage.source)?.frontmatter ?? {};
+			const suffix = webpage.source.basename.match(Languages.suffixPattern)?.[1];
+			const suffixKey = suffix ? this.getPathKey(webpage.source, suffix) : undefined;
+			const hasSuffix = suffixKey != undefined && unsuffixedKeys.has(suffixKey);
+
+			const property = frontmatter[options.languageProperty];
+			let language = property ? String(property).trim() : "";
+			if (language != "" && !Languages.codePattern.test(language))
+			{
+				ExportLog.warning(`The language "${language}" of ${webpage.source.path} is not a language code like en or pt-BR, so it is ignored.`);
+				language = "";
+			}
+
+			webpage.language = language || (hasSuffix ? suffix : "") || defaultLanguage;
+			webpage.translations = {};
+
+			const translationKey = frontmatter[options.translationKeyProperty];
+			const key = translationKey ? "key:" + String(translationKey).trim() : "path:" + (hasSuffix ? suffixKey : this.getPathKey(webpage.source));
+			const group = groups.get(key) ?? [];
+			group.push(webpage);
+			groups.set(key, group);
+		}
+
+		for (const group of groups.values())
+		{
+			const translations: {[language: string]: string} = {};
+			for (const webpage of group)
+			{
+				if (translations[webpage.language])
+				{
+					ExportLog.warning(`${webpage.source.path} has the same language (${webpage.language}) as another variant of the note and is not linked from it.`);
+					continue;
+				}
+
+				translations[webpage.language] = webpage.targetPath.path;
+			}
+
+			if (Object.keys(translations).length < 2) continue;
+			for (const webpage of group) webpage.translations = translations;
+		}
+
+		for (const webpage of webpages)
+		{
+			if (index.newFiles.includes(webpage) || index.updatedFiles.includes(webpage)) continue;
+			const oldData = index.getOldWebpage(webpage.targetPath.path);
+			if (!oldData) continue;
+
+			const oldTranslations = JSON.stringify(oldData.translations ?? {});
+			if ((oldData.language ?? "") != webpage.language || oldTranslations != JSON.stringify(webpage.translations))
+				index.updatedFiles.push(webpage);
+		}
+	}
+
+	/**
+	 * The path of the file without its extension and the given language suffix.
+	 */
+	private getPathKey(file: TFile, suffix?: string): string
+	{
+		const basename = suffix ? file.basename.substring(0, file.basename.length - suffix.length - 1) : file.basename;
+		return (file.parent?.path ?? "") + "/" + basename;
+	}
+}
@@ -0,0 +1,154 @@
+import { Path } from "src/plugin/utils/path";
+import { ExportLog } from "src/plugin/render-api/render-api";
+import { Shared } from "src/shared/shared";
+import { Webpage } from "./webpage";
+import { Website } from "./website";
+
+export enum BrokenLinkType
+{
+	Link = "broken-link",
+	Attachment = "missing-attachment",
+	Anchor = "bad-anchor",
+}
+
+export interface BrokenLink
+{
+	/**
+	 * The vault path of the page containing the link.
+	 */
+	source: string;
+
+	/**
+	 * The export path of the page containing the link.
+	 */
+	page: string;
+
+	/**
+	 * The href or src as it was written into the exported page.
+	 */
+	link: string;
+	type: BrokenLinkType;
+}
+
+/**
+ * Checks the links of all exported pages against the files and heading ids of the finished website.
+ * Pages rendered in this export are checked completely, unchanged pages only by the links stored in the metadata.
+ */
+export class LinkChecker
+{
+	private website: Website;
+	private files: Set<string> = new Set();
+	private pageIds: Map<string, Set<string>> = new Map();
+
+	public brokenLinks: BrokenLink[] = [];
+
+	constructor(website: Website)
+	{
+		this.website = website;
+	}
+
+	public check(): BrokenLink[]
+	{
+		const index = this.website.index;
+		this.brokenLinks = [];
+		this.files = new Set(index.websiteData.allFiles ?? index.allFiles.map((file) => file.targetPath.path));
+
+		// collect the known anchors of each page, unchanged pages only know their headings
+		this.pageIds = new Map();
+		for (const [path, data] of Object.entries(index.websiteData.webpages))
+		{
+			this.pageIds.set(path, new Set(data.headers?.map((header) => header.id) ?? []));
+		}
+
+		const changed = new Set([...index.newFiles, ...index.updatedFiles]);
+		const rendered = index.webpages.filter((webpage) => changed.has(webpage));
+		for (const webpage of rendered)
+		{
+			this.pageIds.set(webpage.targetPath.path, new Set(webpage.outputData.elementIds));
+		}
+
+		for (const webpage of rendered)
+		{
+			this.checkRenderedPage(webpage);
+		}
+
+		const renderedPaths = new Set(rendered.map((webpage) => webpage.targetPath.path));
+		for (const [path, data] of Object.entries(index.websiteData.webpages))
+		{
+			if (renderedPaths.has(path)) continue;
+			for (const link of data.links ?? [])
+			{
+				this.checkLink(data.sourcePath, path, link, false);
+			}
+		}
+
+		return this.brokenLinks;
+	}
+
+	private checkRenderedPage(webpage: Webpage)
+	{
+		const source = webpage.source.path;
+		const page = webpage.targetPath.path;
+		for (const link of webpage.outputData.hrefLinks)
+		{
+			this.checkLink(source, page, link, false);
+		}
+
+		for (const link of webpage.outputData.srcLinks)
+		{
+			this.checkLink(source, page, link, true);
+		}
+	}
+
+	private checkLink(source: string, page: string, link: string | null, isEmbed: boolean)
+	{
+		if (!link) return;
+		if (link.startsWith("?") || link.startsWith("data:") || link.startsWith("mailto:") || link.startsWith("javascript:")) return;
+		if (!link.startsWith("app://") && /\w+:(\/\/|\\\\)/.exec(link)) return;
+		if (link.startsWith(Shared.libFolderName + "/")) return;
+
+		const report = (type: BrokenLinkType) =>
+		{
+			this.brokenLinks.push({ source, page, link, type });
+			ExportLog.warning(`${type}: ${link}`, `Broken link in ${source}`);
+		}
+
+		// links to local files that could not be resolved to an exported file
+		if (link.startsWith("app://"))
+		{
+			report(isEmbed ? BrokenLinkType.Attachment : BrokenLinkType.Link);
+			return;
+		}
+
+		const hashIndex = link.indexOf("#");
+		const hash = hashIndex >= 0 ? link.substring(hashIndex + 1) : "";
+		let targetPath = (hashIndex >= 0 ? link.substring(0, hashIndex) : link).split("?")[0];
+
+		try
+		{
+			targetPath = decodeURI(targetPath);
+		}
+		catch { /* keep the raw path */ }
+
+		const target = targetPath == "" ? page : new Path(targetPath).path;
+		const isWebpage = new Path(target).extensionName == "html";
+
+		if (!this.files.has(target))
+		{
+			report(isEmbed || !isWebpage ? BrokenLinkType.Attachment : BrokenLinkType.Link);
+			return;
+		}
+
+		if (hash == "" || !isWebpage) return;
+
+		let anchor = hash;
+		try
+		{
+			anchor = decodeURIComponent(hash);
+		}
+		catch { /* keep the raw anchor */ }
+
+		const ids = this.pageIds.get(target);
+		if (ids && !ids.has(anchor)) report(BrokenLinkType.Anchor);
+	}
+}
@@ -0,0 +1,220 @@
+import { moment } from "obsidian";
+import { Attachment } from "src/plugin/utils/downloadable";
+import { Path } from "src/plugin/utils/path";
+import { AssetHandler } from "src/plugin/asset-loaders/asset-handler";
+import { Utils } from "src/plugin/utils/utils";
+import { DocumentType, WebpageData } from "src/shared/website-data";
+import { Sitemap } from "./sitemap";
+import { Website } from "./website";
+
+export interface ListingItem
+{
+	title: string;
+	href: string;
+	description?: string;
+
+	/**
+	 * The date shown with the item, in milliseconds since 1970.
+	 */
+	date?: number;
+
+	/**
+	 * A number shown with the item, like the number of notes with a tag.
+	 */
+	count?: number;
+
+	isFolder?: boolean;
+}
+
+/**
+ * A page generated from the webpage template which lists other pages, like the pages of folders, tags and the blog.
+ * It is written like an attachment, but listed with the webpages in the website data so the site can navigate to it.
+ */
+export class ListingPage
+{
+	public page: Attachment;
+	public title: string;
+	public items: ListingItem[] = [];
+
+	/**
+	 * The pages before and after this one, when a listing is split over several pages.
+	 */
+	public previousPage?: ListingItem;
+	public nextPage?: ListingItem;
+
+	/**
+	 * Links shown below the list under their own heading, like the archives of a blog.
+	 */
+	public links: ListingItem[] = [];
+	public linksTitle: string = "";
+
+	private website: Website;
+	private cssClass: string;
+
+	/**
+	 * @param path The path of the page, relative to the vault like the source of a webpage. It is slugified like the paths of webpages.
+	 * @param cssClass A class added to the page's document, to style each kind of listing.
+	 */
+	constructor(website: Website, path: string, title: string, cssClass: string)
+	{
+		this.website = website;
+		this.title = title;
+		this.cssClass = cssClass;
+
+		const targetPath = () => new Path(path).setWorkingDirectory(website.destination.path);
+		this.page = new Attachment("", targetPath(), null, website.exportOptions);
+		// the constructor renames html attachments to avoid clashing with webpages, but this is a page of its own
+		this.page.targetPath = targetPath();
+	}
+
+	public get targetPath(): Path
+	{
+		return this.page.targetPath;
+	}
+
+	/**
+	 * Generates the page and adds it to the website's index.
+	 * @param sourcePath What the page was generated for, like the path of a folder, stored as the page's source path.
+	 */
+	public async addToIndex(sourcePath: string)
+	{
+		const html = this.generate();
+		this.page.data = html;
+		this.page.sourcePath = sourcePath;
+		// only count the page as updated when its content changes
+		this.page.sourceStat = { ctime: 0, mtime: parseInt(Utils.hashString(html), 16), size: html.length };
+
+		const info: WebpageData = {
+			title: this.title,
+			icon: "",
+			description: "",
+			author: "",
+			coverImageURL: "",
+			fullURL: Sitemap.getURL(this.targetPath.path, this.website.exportOptions),
+			pathToRoot: this.pathToRoot,
+			headers: [],
+			aliases: [],
+			inlineTags: [],
+			frontmatterTags: [],
+			links: [...this.items, ...this.links, this.previousPage, this.nextPage].filter((item): item is ListingItem => item != undefined).map((item) => item.href),
+			attachments: [],
+			embeddedFiles: [],
+			linkedFiles: [],
+			createdTime: 0,
+			modifiedTime: Math.max(0, ...this.items.map((item) => item.date ?? 0)),
+			sourceSize: html.length,
+			sourcePath: sourcePath,
+			exportPath: this.targetPath.path,
+			showInTree: false,
+			treeOrder: 0,
+			backlinks: [],
+			type: DocumentType.Markdown,
+			data: null,
+		};
+
+		await this.website.index.addListingPage(this.page, info);
+	}
+
+	private get pathToRoot(): string
+	{
+		const pathToRoot = Path.getRelativePath(this.targetPath, new Path(this.targetPath.workingDirectory), true).path;
+		return pathToRoot == "" ? "." : pathToRoot;
+	}
+
+	/**
+	 * Builds the page from the webpage template, with the list of items as its document.
+	 */
+	private generate(): string
+	{
+		const options = this.website.exportOptions;
+		const targetPath = this.targetPath.path;
+		const pageDocument = document.implementation.createHTMLDocument();
+		pageDocument.documentElement.innerHTML = this.website.webpageTemplate.getDocElementInner();
+		pageDocument.documentElement.lang = moment.locale();
+		pageDocument.querySelectorAll(".layout-page-title").forEach((titleEl) => titleEl.textContent = this.title);
+
+		const head = pageDocument.head;
+		const titleEl = pageDocument.createElement("title");
+		titleEl.textContent = this.title;
+		const baseEl = pageDocument.createElement("base");
+		baseEl.setAttribute("href", this.pathToRoot);
+		const metaEls = [
+			["name", "pathname", targetPath],
+			["name", "description", options.siteName + " - " + this.title],
+			["property", "og:title", this.title],
+			["property", "og:type", "website"],
+			["property", "og:url", Sitemap.getURL(targetPath, options)],
+		].map(([attribute, name, content]) =>
+		{
+			const metaEl = pageDocument.createElement("meta");
+			metaEl.setAttribute(attribute, name);
+			metaEl.setAttribute("content", content);
+			return metaEl;
+		});
+		head.prepend(titleEl, baseEl, ...metaEls);
+
+		const canonicalURL = Sitemap.getURL(targetPath, options);
+		if (options.sitemapOptions.enabled && options.sitemapOptions.canonicalLinks && canonicalURL != "")
+		{
+			head.createEl("link", { attr: { rel: "canonical", href: canonicalURL } });
+		}
+
+		const centerContent = pageDocument.querySelector("#center-content") as HTMLElement | null;
+		if (centerContent)
+		{
+			const documentEl = centerContent.createDiv({ cls: `obsidian-document markdown-preview-view markdown-rendered listing-page ${this.cssClass}`, attr: { "data-type": DocumentType.Markdown } });
+			const sizerEl = documentEl.createDiv({ cls: "markdown-preview-sizer markdown-preview-section is-readable-line-width" });
+			const headerEl = sizerEl.createDiv({ cls: "header" });
+			headerEl.createEl("h1", { cls: "page-title heading", text: this.title, attr: { id: this.title } });
+			headerEl.createDiv({ cls: "data-bar" });
+
+			const listEl = sizerEl.createDiv({ cls: "listing-list" });
+			for (const item of this.items)
+			{
+				const itemEl = listEl.createDiv({ cls: "listing-item" });
+				itemEl.classList.toggle("is-folder", item.isFolder == true);
+				const titleEl = itemEl.createDiv({ cls: "listing-item-title" });
+				titleEl.createEl("a", { cls: "internal-link", text: item.title, href: item.href });
+				if (item.count != undefined) titleEl.createSpan({ cls: "listing-item-count", text: item.count.toString() });
+				if (item.description) itemEl.createDiv({ cls: "listing-item-description", text: item.description });
+				if (item.date)
+				{
+					const date = new Date(item.date);
+					const text = date.toLocaleDateString(moment.locale(), { year: "numeric", month: "long", day: "numeric" });
+					itemEl.createEl("time", { cls: "listing-item-date", text: text, attr: { datetime: date.toISOString() } });
+				}
+			}
+
+			if (this.previousPage || this.nextPage)
+			{
+				const paginationEl = sizerEl.createEl("nav", { cls: "listing-pagination" });
+				if (this.previousPage) paginationEl.createEl("a", { cls: "internal-link listing-pagination-previous", text: this.previousPage.title, href: this.previousPage.href });
+				if (this.nextPage) paginationEl.createEl("a", { cls: "internal-link listing-pagination-next", text: this.nextPage.title, href: this.nextPage.href });
+			}
+
+			if (this.links.length > 0)
+			{
+				const linksEl = sizerEl.createDiv({ cls: "listing-links" });
+				if (this.linksTitle) linksEl.createDiv({ cls: "listing-links-title", text: this.linksTitle });
+				for (const link of this.links)
+				{
+					const linkEl = linksEl.createDiv({ cls: "listing-link" });
+					linkEl.createEl("a", { cls: "internal-link", text: link.title, href: link.href });
+					if (link.count != undefined) linkEl.createSpan({ cls: "listing-item-count", text: link.count.toString() });
+				}
+			}
+
+			sizerEl.createDiv({ cls: "footer" }).createDiv({ cls: "data-bar" });
+		}
+
+		if (options.includeJS)
+		{
+			const bodyScript = pageDocument.body.createEl("script");
+			bodyScript.setAttribute("defer", "");
+			bodyScript.innerText = AssetHandler.themeLoadJS.data.toString();
+			pageDocument.body.prepend(bodyScript);
+		}
+
+		return "<!DOCTYPE html> " + pageDocument.documentElement.outerHTML;
+	}
+}
@@ -0,0 +1,96 @@
+import { FrontMatterCache } from "obsidian";
+import { PageOverrides } from "src/shared/website-data";
+import { Path } from "src/plugin/utils/path";
+
+/**
+ * Reads and applies the options a note overrides for its own page, for example:
+ * ```yaml
+ * webpage-hide-sidebars: true
+ * webpage-graph-view: false
+ * webpage-outline: false
+ * webpage-backlinks: false
+ * webpage-document-width: 60em
+ * webpage-layout: landing
+ * webpage-theme: dark
+ * ```
+ * The layout does not choose a layout template, it only adds a class like layout-landing to the page's body for css snippets to style.
+ */
+export class PageOverridesReader
+{
+	public static readonly propertyPrefix = "webpage-";
+
+	public static read(frontmatter: FrontMatterCache | undefined): PageOverrides
+	{
+		const overrides: PageOverrides = {};
+		if (!frontmatter) return overrides;
+
+		const get = (key: string) => frontmatter[PageOverridesReader.propertyPrefix + key];
+		const bool = (key: string): boolean | undefined =>
+		{
+			const value = get(key);
+			if (value === undefined || value === null || value === "") return undefined;
+			return value === true || String(value).trim().toLowerCase() == "true";
+		}
+		const text = (key: string): string | undefined =>
+		{
+			const value = get(key);
+			if (value === undefined || value === null) return undefined;
+			const str = String(value).trim();
+			return str == "" ? undefined : str;
+		}
+
+		const hideSidebars = bool("hide-sidebars");
+		overrides.hideLeftSidebar = bool("hide-left-sidebar") ?? hideSidebars;
+		overrides.hideRightSidebar = bool("hide-right-sidebar") ?? hideSidebars;
+		overrides.graphView = bool("graph-view");
+		overrides.outline = bool("outline");
+		overrides.backlinks = bool("backlinks");
+		overrides.documentWidth = text("document-width");
+
+		const layout = text("layout");
+		overrides.layout = layout ? Path.slugify(layout) : undefined;
+
+		const theme = text("theme")?.toLowerCase();
+		overrides.theme = theme == "light" || theme == "dark" ? theme : undefined;
+
+		// drop unset values so they don't end up in the metadata
+		for (const [key, value] of Object.entries(overrides))
+		{
+			if (value === undefined) delete overrides[key as keyof PageOverrides];
+		}
+
+		return overrides;
+	}
+
+	/**
+	 * Bakes the overrides into the page so they apply on the first load, before the site script runs.
+	 * The site script applies them again when navigating between pages.
+	 */
+	public static apply(overrides: PageOverrides, pageDocument: Document)
+	{
+		const body = pageDocument.body;
+		const hide = (selector: string, hidden: boolean | undefined) =>
+		{
+			const el = pageDocument.querySelector(selector) as HTMLElement | null;
+			if (el && hidden) el.style.display = "none";
+		}
+
+		hide("#left-sidebar", overrides.hideLeftSidebar);
+		hide("#right-sidebar", overrides.hideRightSidebar);
+		hide("#graph-view", overrides.graphView === false);
+		hide("#outline", overrides.outline === false);
+
+		if (overrides.documentWidth)
+		{
+			body.style.setProperty("--line-width", overrides.documentWidth);
+			body.style.setProperty("--line-width-adaptive", overrides.documentWidth);
+			body.style.setProperty("--file-line-width", overrides.documentWidth);
+		}
+
+		if (overrides.layout) body.classList.add("layout-" + overrides.layout);
+		if (overrides.theme) body.setAttribute("data-default-theme", overrides.theme);
+
+		// the override properties are settings, not content
+		pageDocument.querySelectorAll(`.metadata-property[data-property-key^="${PageOverridesReader.propertyPrefix}"]`).forEach((el) => el.remove());
+	}
+}
@@ -11,9 +11,14 @@ import { DocumentOptions } from "src/shared/features/document";
 import { EmojiStyle } from "src/shared/website-data";
 import { SearchOptions } from "src/shared/features/search";
 import { CustomHeadOptions } from "src/shared/features/custom-head";
+import { CustomFeatureOptions } from "src/shared/features/custom-feature";
 import { MarkdownRendererOptions } from "src/plugin/render-api/api-options";
 import { RssOptions } from "src/shared/features/rss";
 import { LinkPreviewOptions } from "src/shared/features/link-preview";
+import { SitemapOptions } from "src/shared/features/sitemap";
+import { LanguageOptions } from "src/shared/features/languages";
+import { BlogOptions } from "src/shared/features/blog";
+import { FeatureRelation } from "src/shared/features/feature-options-base";
 
 export class ExportPipelineOptions extends MarkdownRendererOptions
 {
@@ -90,6 +95,11 @@ export class ExportPipelineOptions extends MarkdownRendererOptions
 	 */
 	customHeadOptions: CustomHeadOptions = new CustomHeadOptions();
 
+	/**
+	 * Features defined by the user, each showing an .html or .md file from the vault on every page.
+	 */
+	customFeatures: CustomFeatureOptions[] = [];
+
 	/**
 	 * Document section options
 	 */
@@ -100,6 +110,21 @@ export class ExportPipelineOptions extends MarkdownRendererOptions
 	 */
 	rssOptions: RssOptions = new RssOptions();
 
+	/**
+	 * The options for the sitemap, robots.txt and canonical links.
+	 */
+	sitemapOptions: SitemapOptions = new SitemapOptions();
+
+	/**
+	 * The options for language variants and the language switcher.
+	 */
+	languageOptions: LanguageOptions = new LanguageOptions();
+
+	/**
+	 * The options for the blog listings, archives and post navigation.
+	 */
+	blogOptions: BlogOptions = new BlogOptions();
+
 	/**
 	 * The options for the link preview feature.
 	 */
@@ -152,6 +177,12 @@ export class ExportPipelineOptions extends MarkdownRendererOptions
 	 */
 	combineAsSingleFile: boolean = false;
 
+	/**
+	 * Write the export into a single .zip archive in the destination folder instead of a folder of files.
+	 * The archive is built in memory and always contains the full site, because it can't be updated incrementally.
+	 */
+	zipOutput: boolean = false;
+
 	/**
 	 * Do not leave any online urls, download them and embed them into the HTML.
 	 */
@@ -194,6 +225,11 @@ export class ExportPipelineOptions extends MarkdownRendererOptions
 	 */
 	homePagePath: string = '';
 
+	/**
+	 * The local path to an html file with slots, which replaces the built in page layout. Empty to use the built in layout.
+	 */
+	layoutTemplatePath: string = '';
+
 	/**
 	 * The style of emoji to use for custom icons.
 	 */
@@ -219,6 +255,59 @@ export class ExportPipelineOptions extends MarkdownRendererOptions
 	 */
 	autoDisposeWebpages: boolean = true;
 
+	/**
+	 * Write a build-report.json into the site-lib folder listing what happened to every file during the export.
+	 */
+	buildReport: boolean = false;
+
+	/**
+	 * Also write a human readable build-report.html next to build-report.json.
+	 */
+	buildReportHTML: boolean = false;
+
+	/**
+	 * After building, check every link and embed of the exported pages for missing files and anchors.
+	 */
+	checkLinks: boolean = false;
+
+	/**
+	 * Fail the export if the link check finds any broken links.
+	 * Pages are then only saved once the check passed, so a failed export leaves the destination as it was.
+	 */
+	failOnBrokenLinks: boolean = false;
+
+	/**
+	 * Only export notes matching at least one of these rules, or every note if there are none.
+	 * A rule is a tag like "#publish" or a frontmatter property like "publish: true".
+	 */
+	publishIncludeRules: string[] = [];
+
+	/**
+	 * Never export notes matching any of these rules, for example "draft: true" or "#draft".
+	 * Links to excluded notes are removed and their embeds are left out.
+	 */
+	publishExcludeRules: string[] = [];
+
+	/**
+	 * Write a page redirecting to the new location at the old path of every page which was moved, renamed or given a new permalink.
+	 */
+	createRedirects: boolean = false;
+
+	/**
+	 * Also list the redirects in a _redirects file at the root of the site, as read by Netlify and Cloudflare Pages.
+	 */
+	redirectsFile: boolean = false;
+
+	/**
+	 * Give every exported folder a page: its folder note if it has one, otherwise a generated page listing its contents.
+	 */
+	folderIndexPages: boolean = false;
+
+	/**
+	 * Also write every page's metadata and rendered content as JSON, with an index of all pages, for other tools to read.
+	 */
+	contentApi: boolean = false;
+
 	/**
 	 * Reconstructs feature option instances to ensure constructor-set properties are preserved
 	 * after loading from JSON. This is necessary because deepAssign overwrites instance properties.
@@ -242,6 +331,14 @@ export class ExportPipelineOptions extends MarkdownRendererOptions
 				(this as any)[propertyName] = Object.assign(freshInstance, propertyValue);
 			}
 		}
+
+		// custom features are loaded as plain objects inside their array
+		this.customFeatures = (this.customFeatures ?? []).map((feature) =>
+		{
+			const freshInstance = Object.assign(new CustomFeatureOptions(), feature);
+			freshInstance.featurePlacement = Object.assign(new FeatureRelation(), feature.featurePlacement);
+			return freshInstance;
+		});
 	}
 }
 
@@ -0,0 +1,71 @@
+import { TFile, getAllTags } from "obsidian";
+import { ExportPipelineOptions } from "src/plugin/website/pipeline-options.js";
+
+/**
+ * Decides from a note's frontmatter and tags whether it may be published.
+ * A rule is either a tag like "#publish", a frontmatter property like "publish: true" or a folder like "Blog/".
+ * A property without a value, like "publish", matches when the property is set to anything but false.
+ */
+export class PublishFilter
+{
+	/**
+	 * Whether the file passes the publish rules of the options. Only markdown notes are filtered, other files always pass.
+	 */
+	public static isPublished(file: TFile, options: ExportPipelineOptions): boolean
+	{
+		if (file.extension != "md") return true;
+
+		const includeRules = PublishFilter.cleanRules(options.publishIncludeRules);
+		const excludeRules = PublishFilter.cleanRules(options.publishExcludeRules);
+		if (includeRules.length == 0 && excludeRules.length == 0) return true;
+
+		if (includeRules.length > 0 && !includeRules.some((rule) => PublishFilter.matches(file, rule))) return false;
+		return !excludeRules.some((rule) => PublishFilter.matches(file, rule));
+	}
+
+	/**
+	 * Splits a comma separated list of rules as it is typed in the settings.
+	 */
+	public static parseRules(value: string): string[]
+	{
+		return PublishFilter.cleanRules(value.split(","));
+	}
+
+	private static cleanRules(rules: string[] | undefined): string[]
+	{
+		return (rules ?? []).map((rule) => rule.trim()).filter((rule) => rule != "");
+	}
+
+	/**
+	 * Whether the file matches a single rule.
+	 */
+	public static matches(file: TFile, rule: string): boolean
+	{
+		if (rule.endsWith("/"))
+		{
+			const folder = rule.replace(/^\/+/, "").toLowerCase();
+			return file.path.toLowerCase().startsWith(folder);
+		}
+
+		const cache = app.metadataCache.getFileCache(file);
+		if (!cache) return false;
+
+		if (rule.startsWith("#"))
+		{
+			const tag = rule.toLowerCase();
+			const tags = (getAllTags(cache) ?? []).map((t) => t.toLowerCase());
+			return tags.some((t) => t == tag || t.startsWith(tag + "/"));
+		}
+
+		const separator = rule.indexOf(":");
+		const property = (separator >= 0 ? rule.substring(0, separator) : rule).trim();
+		const expected = separator >= 0 ? rule.substring(separator + 1).trim().toLowerCase() : undefined;
+
+		const value = cache.frontmatter?.[property];
+		if (value === undefined || value === null) return false;
+
+		const values = (Array.isArray(value) ? value : [value]).map((v) => String(v).trim().toLowerCase());
+		if (expected == undefined) return values.some((v) => v != "false");
+		return values.includes(expected);
+	}
+}
@@ -0,0 +1,196 @@
+import { Attachment } from "src/plugin/utils/downloadable";
+import { Path } from "src/plugin/utils/path";
+import { Settings, SettingsPage } from "src/plugin/settings/settings";
+import { ExportLog } from "src/plugin/render-api/render-api";
+import { Utils } from "src/plugin/utils/utils";
+import { ExportPipelineOptions } from "src/plugin/website/pipeline-options.js";
+import { Website } from "./website";
+import { promises as fs } from "fs";
+import path from "path";
+
+/**
+ * Keeps old URLs working when a page is exported to a different path than before,
+ * because its note was renamed or moved or its permalink or slug changed.
+ * A small page redirecting to the new location is written at every old path,
+ * and optionally a _redirects file for hosts like Netlify and Cloudflare Pages.
+ */
+export class Redirects
+{
+	public static readonly redirectsFileName = "_redirects";
+
+	private website: Website;
+
+	constructor(website: Website)
+	{
+		this.website = website;
+	}
+
+	/**
+	 * Whether redirects are written. A zip archive is always exported completely without reading the previous export,
+	 * so there are no old paths to redirect from.
+	 */
+	public static isEnabled(options: ExportPipelineOptions): boolean
+	{
+		return options.createRedirects && !options.zipOutput;
+	}
+
+	/**
+	 * Collects the redirects of the previous export and the pages moved since, and adds a redirect page for each to the index.
+	 * Must run after all webpages were added to the index.
+	 */
+	public async create(): Promise<{[fromPath: string]: string}>
+	{
+		const index = this.website.index;
+		const oldData = index.oldWebsiteData;
+		const redirects: {[fromPath: string]: string} = Object.assign({}, oldData?.redirects ?? {});
+
+		// pages which are exported at a different path than in the previous export
+		for (const [oldTarget, oldPage] of Object.entries(oldData?.webpages ?? {}))
+		{
+			const webpage = index.getWebpage(Redirects.getCurrentPath(oldPage.sourcePath, this.website.destination));
+			if (!webpage) continue;
+
+			const newTarget = webpage.targetPath.path;
+			if (newTarget != oldTarget) redirects[oldTarget] = newTarget;
+		}
+
+		// follow redirects to pages which moved again, and drop redirects to pages which are gone
+		// or from paths which are taken by a real file again
+		const files = new Set(index.allFiles.map((file) => file.targetPath.path));
+		for (const from of Object.keys(redirects))
+		{
+			let to = redirects[from];
+			const visited = new Set([from]);
+			while (redirects[to] && !visited.has(to) && !files.has(to))
+			{
+				visited.add(to);
+				to = redirects[to];
+			}
+
+			if (files.has(from) || !files.has(to) || from == to) delete redirects[from];
+			else redirects[from] = to;
+		}
+
+		for (const [from, to] of Object.entries(redirects))
+		{
+			await index.addRedirect(this.createRedirectPage(from, to));
+		}
+
+		const count = Object.keys(redirects).length;
+		if (count > 0) ExportLog.log(Object.entries(redirects).map(([from, to]) => `${from} -> ${to}`).join("\n"), `Writing ${count} redirects`);
+
+		return redirects;
+	}
+
+	/**
+	 * The key of a destination in the recorded renames.
+	 */
+	private static getDestinationKey(destination: Path): string
+	{
+		return destination.absoluted().path;
+	}
+
+	/**
+	 * Starts recording renames for the destination anew, once an export to it has finished and no longer needs the earlier ones.
+	 */
+	public static async clearRenamedFiles(destination: Path)
+	{
+		Settings.renamedFiles[Redirects.getDestinationKey(destination)] = {};
+		await SettingsPage.saveSettings();
+	}
+
+	/**
+	 * The path a vault file has now, following the renames recorded since it was last exported to the destination.
+	 */
+	public static getCurrentPath(sourcePath: string, destination: Path): string
+	{
+		const renamedFiles = Settings.renamedFiles[Redirects.getDestinationKey(destination)] ?? {};
+		const renamed = renamedFiles[sourcePath];
+		if (renamed) return renamed;
+
+		// files inside a renamed folder
+		let folder = sourcePath;
+		while (folder.contains("/"))
+		{
+			folder = folder.substring(0, folder.lastIndexOf("/"));
+			const renamedFolder = renamedFiles[folder];
+			if (renamedFolder) return renamedFolder + sourcePath.substring(folder.length);
+		}
+
+		return sourcePath;
+	}
+
+	private createRedirectPage(from: string, to: string): Attachment
+	{
+		const depth = from.split("/").length - 1;
+		const relativeURL = encodeURI("../".repeat(depth) + to);
+		const siteUrl = this.website.exportOptions.rssOptions.siteUrl ?? "";
+		const canonicalURL = siteUrl != "" ? encodeURI(siteUrl.replace(/\/?$/, "/") + to) : relativeURL;
+
+		const html =
+`<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>Redirecting…</title>
+<meta name="robots" content="noindex">
+<link rel="canonical" href="${canonicalURL}">
+<meta http-equiv="refresh" content="0; url=${relativeURL}">
+</head>
+<body>
+<p>This page has moved to <a href="${relativeURL}">${Redirects.escape(to)}</a>.</p>
+</body>
+</html>
+`;
+
+		const targetPath = () => new Path(from).setWorkingDirectory(this.website.destination.path);
+		const page = new Attachment(html, targetPath(), null, this.website.exportOptions);
+		// the constructor renames html attachments to avoid clashing with webpages, but the page has to replace the old one
+		page.targetPath = targetPath();
+		// only count the page as updated when the redirect changes
+		page.sourceStat = { ctime: 0, mtime: parseInt(Utils.hashString(html), 16), size: html.length };
+		return page;
+	}
+
+	/**
+	 * The content of the _redirects file listing the redirects of the website.
+	 */
+	private static getRedirectsFile(website: Website): string
+	{
+		// the redirects are relative to the site root, which may be a subfolder of the domain
+		let base = "/";
+		try
+		{
+			const siteUrl = website.exportOptions.rssOptions.siteUrl ?? "";
+			if (siteUrl != "") base = new URL(siteUrl).pathname.replace(/\/?$/, "/");
+		}
+		catch { /* use the domain root */ }
+
+		const redirects = website.index.websiteData.redirects ?? {};
+		const lines = Object.entries(redirects).map(([from, to]) => `${encodeURI(base + from)} ${encodeURI(base + to)} 301`);
+		return lines.map((line) => line + "\n").join("");
+	}
+
+	/**
+	 * Writes the redirects of the website into a _redirects file at its root.
+	 * Paths without an extension are directories to the exporter, so this file is written directly instead of as an attachment.
+	 */
+	public static async writeRedirectsFile(website: Website)
+	{
+		const filePath = path.join(website.destination.absoluted().path, Redirects.redirectsFileName);
+
+		try
+		{
+			await fs.writeFile(filePath, Redirects.getRedirectsFile(website), { encoding: "utf-8" });
+		}
+		catch (e)
+		{
+			ExportLog.error(e, "Could not save file: " + Redirects.redirectsFileName);
+		}
+	}
+
+	private static escape(text: string): string
+	{
+		return text.replaceAll("&", "&amp;").replaceAll("<", "&lt;").replaceAll(">", "&gt;").replaceAll('"', "&quot;");
+	}
+}
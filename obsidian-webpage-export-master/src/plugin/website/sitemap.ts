@@ -0,0 +1,133 @@
+import { TFile } from "obsidian";
+import { Attachment } from "src/plugin/utils/downloadable";
+import { Path } from "src/plugin/utils/path";
+import { ExportLog } from "src/plugin/render-api/render-api";
+import { Utils } from "src/plugin/utils/utils";
+import { ExportPipelineOptions } from "src/plugin/website/pipeline-options.js";
+import { Webpage } from "./webpage";
+import { Website } from "./website";
+
+/**
+ * Writes the sitemap.xml and robots.txt of a website which has a public site url.
+ * The sitemap lists every exported page, not only the ones rendered in this export, with its source's modified time,
+ * and the generated listing pages.
+ */
+export class Sitemap
+{
+	public static readonly sitemapFileName = "sitemap.xml";
+	public static readonly robotsFileName = "robots.txt";
+
+	private website: Website;
+
+	constructor(website: Website)
+	{
+		this.website = website;
+	}
+
+	/**
+	 * The public url of a file in the website, or an empty string if the site url is not set.
+	 */
+	public static getURL(path: string, options: ExportPipelineOptions): string
+	{
+		const siteUrl = options.rssOptions.siteUrl ?? "";
+		if (siteUrl == "") return "";
+		return encodeURI(siteUrl.replace(/\/?$/, "/") + path);
+	}
+
+	/**
+	 * Whether the note asks to be left out of the sitemap through the unlisted property.
+	 */
+	public static isUnlisted(file: TFile, options: ExportPipelineOptions): boolean
+	{
+		const property = options.sitemapOptions.unlistedProperty?.trim();
+		if (!property) return false;
+
+		const value = app.metadataCache.getFileCache(file)?.frontmatter?.[property];
+		return value === true || String(value).trim().toLowerCase() == "true";
+	}
+
+	/**
+	 * Adds sitemap.xml and, if enabled, robots.txt to the index.
+	 */
+	public async create()
+	{
+		const options = this.website.exportOptions;
+		if ((options.rssOptions.siteUrl ?? "") == "")
+		{
+			ExportLog.warning("Creating a sitemap requires a site url to be set in the RSS settings.");
+			return;
+		}
+
+		const index = this.website.index;
+		const pages: {path: string, modifiedTime: number}[] = [];
+		for (const file of index.allFiles)
+		{
+			if (file instanceof Webpage)
+			{
+				if (!Sitemap.isUnlisted(file.source, options)) pages.push({ path: file.targetPath.path, modifiedTime: file.source.stat.mtime });
+				continue;
+			}
+
+			// generated listing pages are listed with the webpages, dated by their newest item
+			const listingData = index.websiteData.webpages[file.targetPath.path];
+			if (listingData) pages.push({ path: file.targetPath.path, modifiedTime: listingData.modifiedTime });
+		}
+		pages.sort((a, b) => a.path.localeCompare(b.path));
+
+		let xml = `<?xml version="1.0" encoding="UTF-8"?>\n<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">\n`;
+		for (const page of pages)
+		{
+			const url = Sitemap.getURL(page.path, options);
+			const lastmod = page.modifiedTime > 0 ? `\n\t\t<lastmod>${new Date(page.modifiedTime).toISOString()}</lastmod>` : "";
+			xml += `\t<url>\n\t\t<loc>${Sitemap.escape(url)}</loc>${lastmod}\n\t</url>\n`;
+		}
+		xml += `</urlset>\n`;
+
+		await index.addFile(this.createRootFile(Sitemap.sitemapFileName, xml));
+
+		if (options.sitemapOptions.robotsTxt)
+		{
+			await index.addFile(this.createRootFile(Sitemap.robotsFileName, this.getRobotsTxt()));
+		}
+	}
+
+	private getRobotsTxt(): string
+	{
+		const options = this.website.exportOptions;
+
+		// robots.txt paths start at the domain root, which may be above the site root
+		let base = "/";
+		try
+		{
+			base = new URL(options.rssOptions.siteUrl).pathname.replace(/\/?$/, "/");
+		}
+		catch { /* use the domain root */ }
+
+		if (base != "/")
+		{
+			ExportLog.warning("Search engines only read robots.txt at the root of the domain, so it has to be moved there from " + base);
+		}
+
+		const disallowed = options.sitemapOptions.robotsDisallow.split(",")
+			.map((path) => path.trim().replace(/^\/+/, ""))
+			.filter((path) => path != "");
+
+		let robots = "User-agent: *\n";
+		robots += disallowed.length == 0 ? "Allow: /\n" : disallowed.map((path) => `Disallow: ${encodeURI(base + path)}\n`).join("");
+		robots += `\nSitemap: ${Sitemap.getURL(Sitemap.sitemapFileName, options)}\n`;
+		return robots;
+	}
+
+	private createRootFile(name: string, data: string): Attachment
+	{
+		const file = new Attachment(data, new Path(name).setWorkingDirectory(this.website.destination.path), null, this.website.exportOptions);
+		// only count the file as updated when its content changes
+		file.sourceStat = { ctime: 0, mtime: parseInt(Utils.hashString(data), 16), size: data.length };
+		return file;
+	}
+
+	private static escape(text: string): string
+	{
+		return text.replaceAll("&", "&amp;").replaceAll("<", "&lt;").replaceAll(">", "&gt;").replaceAll('"', "&quot;").replaceAll("'", "&apos;");
+	}
+}
@@ -0,0 +1,123 @@
+import { Path } from "src/plugin/utils/path";
+import { ExportLog } from "src/plugin/render-api/render-api";
+import { i18n } from "src/plugin/translations/language";
+import { ExportPipelineOptions } from "src/plugin/website/pipeline-options.js";
+import { WebpageData } from "src/shared/website-data";
+import { ListingPage } from "./listing-page";
+import { Website } from "./website";
+
+/**
+ * Writes a page for every tag listing the notes which have it, and an overview page of all tags,
+ * so tag links work without search or javascript.
+ * Notes with a nested tag like #project/web are listed on the page of #project as well.
+ */
+export class TagPages
+{
+	public static readonly tagsFolderName = "tags";
+	public static readonly overviewFileName = "index.html";
+
+	private website: Website;
+
+	constructor(website: Website)
+	{
+		this.website = website;
+	}
+
+	/**
+	 * Whether tags link to their pages, instead of to a search for the tag.
+	 */
+	public static isEnabled(options: ExportPipelineOptions): boolean
+	{
+		return options.tagOptions.tagPages && !options.combineAsSingleFile;
+	}
+
+	/**
+	 * The export path of a tag's page. Tags are case insensitive, so they share a page regardless of case.
+	 */
+	public static getTagPath(tag: string, options: ExportPipelineOptions): string
+	{
+		const name = TagPages.getKey(tag);
+		return new Path(TagPages.tagsFolderName).joinString(name + ".html").slugify(options.slugifyPaths).path;
+	}
+
+	/**
+	 * The tag without its # in lower case, which identifies the tag.
+	 */
+	public static getKey(tag: string): string
+	{
+		return tag.replace(/^#/, "").toLowerCase();
+	}
+
+	/**
+	 * Adds the page of every tag of the exported pages, and the overview of all tags, to the index.
+	 * Must run after every webpage was built, so the pages can list them.
+	 * @returns The export path of each tag's page by the tag's key.
+	 */
+	public async create(): Promise<{[tag: string]: string}>
+	{
+		const index = this.website.index;
+		const tags = new Map<string, { name: string, pages: WebpageData[] }>();
+		for (const [exportPath, data] of Object.entries(index.websiteData.webpages))
+		{
+			if (index.deletedFiles.includes(exportPath)) continue;
+
+			const pageTags = new Set<string>();
+			for (const tag of [...(data.frontmatterTags ?? []), ...(data.inlineTags ?? [])])
+			{
+				// count the page for the parent tags of nested tags too
+				const parts = tag.replace(/^#/, "").split("/");
+				for (let i = 1; i <= parts.length; i++)
+				{
+					pageTags.add(parts.slice(0, i).join("/"));
+				}
+			}
+
+			for (const tag of pageTags)
+			{
+				const key = TagPages.getKey(tag);
+				if (key == "") continue;
+				const entry = tags.get(key) ?? { name: tag, pages: [] };
+				entry.pages.push(data);
+				tags.set(key, entry);
+			}
+		}
+
+		const claimedPaths = new Set(index.allFiles.map((file) => file.targetPath.path));
+		const overview = new ListingPage(this.website, new Path(TagPages.tagsFolderName).joinString(TagPages.overviewFileName).path, i18n.settings.tags.overviewTitle, "tag-overview");
+		const tagPaths: {[tag: string]: string} = {};
+		const sortedTags = Array.from(tags.entries()).sort(([a], [b]) => a.localeCompare(b, undefined, { numeric: true }));
+		for (const [key, entry] of sortedTags)
+		{
+			const page = new ListingPage(this.website, TagPages.getTagPath(key, this.website.exportOptions), "#" + entry.name, "tag-page");
+			if (claimedPaths.has(page.targetPath.path))
+			{
+				ExportLog.warning(`The page of tag #${entry.name} is not created, because another file is exported to ${page.targetPath.path}.`);
+				continue;
+			}
+
+			entry.pages.sort((a, b) => a.title.localeCompare(b.title, undefined, { numeric: true }));
+			for (const data of entry.pages)
+			{
+				page.items.push({ title: data.title, href: data.exportPath, description: data.description, date: data.modifiedTime });
+			}
+
+			await page.addToIndex("#" + entry.name);
+			tagPaths[key] = page.targetPath.path;
+			overview.items.push({ title: "#" + entry.name, href: page.targetPath.path, count: entry.pages.length });
+		}
+
+		if (claimedPaths.has(overview.targetPath.path))
+		{
+			ExportLog.warning(`The tag overview is not created, because another file is exported to ${overview.targetPath.path}.`);
+		}
+		else if (sortedTags.length > 0)
+		{
+			await overview.addToIndex(TagPages.tagsFolderName);
+		}
+
+		const count = Object.keys(tagPaths).length;
+		if (count > 0) ExportLog.log(`Created pages for ${count} tags`);
+
+		return tagPaths;
+	}
+}
@@ -4,6 +4,8 @@ import { ExportPipelineOptions } from "./pipeline-options";
 import { AssetHandler } from "../asset-loaders/asset-handler";
 import { AssetType } from "../asset-loaders/asset-types";
 import { Utils } from "../utils/utils";
+import { Feeds } from "./feeds";
+import { Path } from "../utils/path";
 
 
 
@@ -11,14 +13,12 @@ export class WebpageTemplate
 {
 	private doc: Document;
 	private options: ExportPipelineOptions;
-	private rssURL: string;
 	public deferredFeatures: {feature: HTMLElement, featureOptions: InsertedFeatureOptions}[] = [];
 
 
-	constructor (options: ExportPipelineOptions, rssURL: string)
+	constructor (options: ExportPipelineOptions)
 	{
 		this.options = options;
-		this.rssURL = rssURL;
 	}
 
 	public async loadLayout(): Promise<void>
@@ -38,7 +38,7 @@ export class WebpageTemplate
 		{
 			if (this.options.rssOptions.enabled)
 			{
-				head.innerHTML += `<link rel="alternate" type="application/rss+xml" title="RSS Feed" href="${this.rssURL}">`;
+				head.innerHTML += Feeds.getAlternateLinks(Feeds.getFeeds(this.options).slice(0, 1), this.options);
 			}
 
 			head.innerHTML += AssetHandler.getHeadReferences(this.options);
@@ -98,6 +98,82 @@ export class WebpageTemplate
 			leftSidebar.remove();
 			rightSidebar.remove();
 		}
+
+		const layoutTemplate = await this.readLayoutTemplate();
+		if (layoutTemplate)
+		{
+			this.applyLayoutTemplate(layoutTemplate, main, homePagePath != "" ? homePagePath : "index.html",
+			{
+				"topbar-left": navbarLeft,
+				"topbar-title": navbarCenter,
+				"topbar-right": navbarRight,
+				"left-sidebar": leftContent,
+				"content": centerContent,
+				"right-sidebar": rightContent,
+			});
+		}
+	}
+
+	private async readLayoutTemplate(): Promise<string | undefined>
+	{
+		const templatePath = new Path(this.options.layoutTemplatePath ?? "");
+		if (templatePath.isEmpty) return undefined;
+
+		const template = await templatePath.readAsString();
+		if (template == undefined) ExportLog.error("Could not read the layout template, using the built in layout: " + templatePath.path);
+		return template;
+	}
+
+	/**
+	 * Replaces the built in layout with a layout template, moving the built in parts into the template's slots.
+	 * A footer slot becomes an empty footer features can be placed in, or keeps the slot's content.
+	 * The built in layout is kept if the template has no slot for the content.
+	 */
+	private applyLayoutTemplate(template: string, main: HTMLElement, homeLink: string, parts: Record<string, HTMLElement>)
+	{
+		const escape = (text: string) => text.replaceAll("&", "&amp;").replaceAll("<", "&lt;").replaceAll(">", "&gt;").replaceAll('"', "&quot;");
+		const variables: Record<string, string> =
+		{
+			siteName: escape(this.options.siteName ?? ""),
+			vaultName: escape(app.vault.getName()),
+			homeLink: escape(homeLink),
+			// the title is different on every page, so the page fills it in
+			title: `<span class="layout-page-title"></span>`,
+		};
+		template = template.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, name) => variables[name] ?? match);
+
+		const templateDoc = new DOMParser().parseFromString(template, "text/html");
+		if (!templateDoc.querySelector(`slot[name="content"]`))
+		{
+			ExportLog.warning("The layout template has no content slot, using the built in layout: " + this.options.layoutTemplatePath);
+			return;
+		}
+
+		for (const slot of Array.from(templateDoc.querySelectorAll("slot")))
+		{
+			const name = slot.getAttribute("name") ?? "";
+			if (name == "footer")
+			{
+				const footer = templateDoc.createElement("footer");
+				footer.id = "layout-footer";
+				footer.className = "footer";
+				footer.append(...Array.from(slot.childNodes));
+				slot.replaceWith(footer);
+				continue;
+			}
+
+			const part = parts[name];
+			if (part) slot.replaceWith(part);
+			else
+			{
+				ExportLog.warning(`Unknown slot "${name}" in the layout template`);
+				slot.remove();
+			}
+		}
+
+		// styles and other head content of the template are kept
+		this.doc.head.append(...Array.from(templateDoc.head.childNodes));
+		main.replaceWith(...Array.from(templateDoc.body.childNodes));
 	}
 
 	public insertFeature(feature: HTMLElement, featureOptions: InsertedFeatureOptions): void
@@ -1,4 +1,4 @@
-import { FileSystemAdapter, FrontMatterCache, TFile, parseYaml } from "obsidian";
+import { FileSystemAdapter, FrontMatterCache, TFile, getLinkpath, parseYaml } from "obsidian";
 import { Path } from "src/plugin/utils/path";
 import { Attachment } from "src/plugin/utils/downloadable";
 import { OutlineTree } from "src/plugin/features/outline-tree";
@@ -6,10 +6,18 @@ import { Website } from "./website";
 import { _MarkdownRendererInternal, ExportLog } from "src/plugin/render-api/render-api";
 import { MarkdownRendererAPI } from "src/plugin/render-api/render-api";
 import { ExportPipelineOptions } from "src/plugin/website/pipeline-options.js";
-import { DocumentType } from "src/shared/website-data";
+import { DocumentType, PageOverrides } from "src/shared/website-data";
 import { Settings } from "src/plugin/settings/settings";
+import { i18n } from "src/plugin/translations/language";
 import { AssetHandler } from "src/plugin/asset-loaders/asset-handler";
 import { Shared } from "src/shared/shared";
+import { PublishFilter } from "./publish-filter";
+import { PageOverridesReader } from "./page-overrides";
+import { Sitemap } from "./sitemap";
+import { Feeds } from "./feeds";
+import { TagPages } from "./tag-pages";
+import { Blog, BlogPost } from "./blog";
+import { ExportHooks } from "src/plugin/export-hooks";
 import { moment } from "obsidian";
 import { promises as fs } from "fs";
 import path from "path";
@@ -37,6 +45,9 @@ export class WebpageOutputData
 	public srcLinks: string[] = [];
 	public hrefLinks: string[] = [];
 	public linksToOtherFiles: string[] = [];
+	public elementIds: string[] = [];
+	public embeddedFiles: string[] = [];
+	public linkedFiles: string[] = [];
 }
 
 export class Webpage extends Attachment
@@ -57,6 +68,15 @@ export class Webpage extends Attachment
 	public type: DocumentType = DocumentType.Markdown;
 	public title: string = "";
 	public icon: string = "";
+	public overrides: PageOverrides = {};
+	public language: string = "";
+	public translations: {[language: string]: string} = {};
+
+	/**
+	 * The older and newer post, if this page is a post of the blog.
+	 */
+	public previousPost: BlogPost | undefined;
+	public nextPost: BlogPost | undefined;
 	private static advancedSlidesAssetsPromise: Promise<Attachment[]> | undefined;
 	private static advancedSlidesEmbedCache: Map<string, Attachment> = new Map();
 
@@ -75,12 +95,20 @@ export class Webpage extends Attachment
 		options = Object.assign(Settings.exportOptions, options);
 
 		super("", targetPath, file, options);
-		this.targetPath.setExtension("html");
 		this.exportOptions = options;
+
+		// a permalink is a path from the root of the site, even when it starts like the export root
+		if (website.getPermalink(file))
+		{
+			this.targetIsRootRelative = true;
+			this.targetPath = website.getTargetPathForFile(file, filename);
+		}
+
+		this.targetPath.setExtension("html");
 		this.source = file;
 		this.website = website;
 
-		if (this.exportOptions.flattenExportPaths) 
+		if (this.exportOptions.flattenExportPaths && !website.getPermalink(file)) 
 			this.targetPath.parent = Path.emptyPath;
 	}
 
@@ -100,6 +128,7 @@ export class Webpage extends Attachment
 		output.coverImageURL = this.coverImageURL ?? "";
 		output.allTags = this.allTags;
 		output.frontmatterTags = this.frontmatterTags;
+		output.inlineTags = this.inlineTags;
 		output.aliases = this.aliases;
 		output.backlinks = this.backlinks;
 		output.headings = this.headings;
@@ -109,6 +138,9 @@ export class Webpage extends Attachment
 		output.srcLinks = this.srcLinks;
 		output.hrefLinks = this.hrefLinks;
 		output.linksToOtherFiles = this.linksToOtherFiles;
+		output.elementIds = this.elementIds;
+		output.embeddedFiles = this.embeddedFiles;
+		output.linkedFiles = this.linkedFiles;
 
 		this.data = output.html;
 
@@ -464,6 +496,26 @@ export class Webpage extends Attachment
 		return frontmatter;
 	}
 
+	/**
+	 * The hreflang links to every language variant of this page, absolute if the site url is set.
+	 */
+	private getAlternateLanguageLinks(): string
+	{
+		const languages = Object.keys(this.translations);
+		if (languages.length < 2) return "";
+
+		const getHref = (path: string) => Sitemap.getURL(path, this.exportOptions) || encodeURI(path);
+		let links = "";
+		for (const language of languages)
+		{
+			links += `<link rel="alternate" hreflang="${language}" href="${getHref(this.translations[language])}">`;
+		}
+
+		const defaultPath = this.translations[this.exportOptions.languageOptions.defaultLanguage];
+		if (defaultPath) links += `<link rel="alternate" hreflang="x-default" href="${getHref(defaultPath)}">`;
+		return links;
+	}
+
 	private get srcLinks(): string[]
 	{
 		const srcEls = this.srcLinkElements.map((item) => item.getAttribute("src")) as string[];
@@ -484,6 +536,10 @@ export class Webpage extends Attachment
 		const hrefEls = (Array.from(this.pageDocument.querySelectorAll(".obsidian-document [href]:not(head *)")) as HTMLAnchorElement[]);
 		return hrefEls;
 	}
+	private get elementIds(): string[]
+	{
+		return Array.from(this.pageDocument.querySelectorAll("[id]")).map((el) => el.id);
+	}
 	private get linksToOtherFiles(): string[]
 	{
 		const links = this.hrefLinks;
@@ -491,6 +547,40 @@ export class Webpage extends Attachment
 		return otherFiles;
 	}
 
+	/**
+	 * The vault paths of the files embedded in this page, unresolved embeds keep their link text.
+	 * Read from the metadata cache, so this is available without rendering the page.
+	 */
+	public get embeddedFiles(): string[]
+	{
+		const cache = app.metadataCache.getFileCache(this.source);
+		return this.resolveLinkpaths(cache?.embeds?.map((embed) => embed.link) ?? []);
+	}
+
+	/**
+	 * The vault paths of the files linked from this page, unresolved links keep their link text.
+	 * Read from the metadata cache, so this is available without rendering the page.
+	 */
+	public get linkedFiles(): string[]
+	{
+		const cache = app.metadataCache.getFileCache(this.source);
+		const links = [...(cache?.links ?? []), ...(cache?.frontmatterLinks ?? [])].map((link) => link.link);
+		return this.resolveLinkpaths(links);
+	}
+
+	private resolveLinkpaths(links: string[]): string[]
+	{
+		const resolved = new Set<string>();
+		for (const link of links)
+		{
+			const linkpath = getLinkpath(link);
+			const file = app.metadataCache.getFirstLinkpathDest(linkpath, this.source.path);
+			resolved.add(file?.path ?? linkpath);
+		}
+
+		return Array.from(resolved).sort();
+	}
+
 	public async build(): Promise<Webpage | undefined>
 	{
 		let isMedia = MarkdownRendererAPI.viewableMediaExtensions.contains(this.source.extension);
@@ -502,6 +592,7 @@ export class Webpage extends Attachment
 		const titleInfo = await _MarkdownRendererInternal.getTitleForFile(this.source);
 		const iconInfo = await _MarkdownRendererInternal.getIconForFile(this.source);
 		this.title = titleInfo.title;
+		this.pageDocument.querySelectorAll(".layout-page-title").forEach((titleEl) => titleEl.textContent = this.title);
 		this.icon = iconInfo.icon;
 		this.icon = await MarkdownRendererAPI.renderMarkdownSimple(this.icon) ?? this.icon;
 	
@@ -518,6 +609,13 @@ export class Webpage extends Attachment
 			this.remapEmbedLinks();
 		}
 
+		if (TagPages.isEnabled(this.exportOptions))
+			this.remapTagLinks();
+
+		const blogOptions = this.exportOptions.blogOptions;
+		if (Blog.isEnabled(this.exportOptions) && blogOptions.postNavigation && (this.previousPost || this.nextPost))
+			blogOptions.insertFeature(this.pageDocument.documentElement, await this.generatePostNavigation());
+
 		// add math styles to the document. They are here and not in <head> because they are unique to each document
 		if (this.exportOptions.addMathjaxStyles && this.type != DocumentType.Attachment)
 		{
@@ -540,6 +638,10 @@ export class Webpage extends Attachment
 			this.exportOptions.outlineOptions.insertFeature(this.pageDocument.documentElement, await headerTree.generate());
 		}
 
+		// apply the options the note overrides for its own page
+		this.overrides = PageOverridesReader.read(this.frontmatter);
+		PageOverridesReader.apply(this.overrides, this.pageDocument);
+
 		// if html will be inlined, un-collapse the tree containing this file
 		const fileExplorer = this.pageDocument.querySelector("#file-explorer");
 		if (fileExplorer && this.exportOptions.fileNavigationOptions.exposeStartingPath && this.exportOptions.inlineHTML)
@@ -570,7 +672,9 @@ export class Webpage extends Attachment
 		tabsScript.textContent = "// Tabs plugin functionality\nfunction initializeTabs() {\n  var tabsContainers = document.querySelectorAll('.tabs-container');\n  tabsContainers.forEach(function(container) {\n    // Re-select nav items and contents to ensure we have current references\n    var navItems = container.querySelectorAll('.tabs-nav-item');\n    var contents = container.querySelectorAll('.tabs-content');\n\n    navItems.forEach(function(item, index) {\n      // Remove existing event listeners to avoid duplicates\n      var newItem = item.cloneNode(true);\n      item.parentNode.replaceChild(newItem, item);\n      item = newItem;\n\n      item.addEventListener('click', function() {\n        // Re-select nav items and contents again to ensure we have the latest references\n        var currentNavItems = container.querySelectorAll('.tabs-nav-item');\n        var currentContents = container.querySelectorAll('.tabs-content');\n        \n        // Remove active class from all items and contents\n        currentNavItems.forEach(function(navItem) {\n          navItem.classList.remove('tabs-nav-item-active');\n        });\n        currentContents.forEach(function(content) {\n          content.classList.remove('tabs-content-active');\n        });\n\n        // Add active class to clicked item and corresponding content\n        item.classList.add('tabs-nav-item-active');\n        if (currentContents[index]) {\n          currentContents[index].classList.add('tabs-content-active');\n        }\n      });\n    });\n  });\n}\n\n// Initialize tabs on page load\ndocument.addEventListener(\"DOMContentLoaded\", initializeTabs);\n\n// Use MutationObserver to detect new tabs containers\nvar observer = new MutationObserver(function(mutations) {\n  mutations.forEach(function(mutation) {\n    if (mutation.addedNodes.length) {\n      // Check if any added node contains tabs containers\n      var hasTabs = false;\n      mutation.addedNodes.forEach(function(node) {\n        if (node.nodeType === 1) { // Element node\n          if (node.classList && node.classList.contains('tabs-container')) {\n            hasTabs = true;\n          } else if (node.querySelector('.tabs-container')) {\n            hasTabs = true;\n          }\n        }\n      });\n      if (hasTabs) {\n        // Small delay to ensure all tabs elements are fully loaded\n        setTimeout(initializeTabs, 100);\n      }\n    }\n  });\n});\n\n// Start observing the document body\nobserver.observe(document.body, {\n  childList: true,\n  subtree: true\n});";
 		this.pageDocument.body.prepend(tabsScript);
 
-		this.pageDocument.documentElement.lang = moment.locale();
+		this.pageDocument.documentElement.lang = this.language || moment.locale();
+
+		if (!await ExportHooks.trigger("webpageBuilt", this)) return undefined;
 
 		await this.generateOutput();
 
@@ -607,9 +711,40 @@ export class Webpage extends Attachment
 
 		if(this.sizerElement) this.sizerElement.style.paddingBottom = "";
 
+		this.removeUnpublishedContent();
+
 		return this;
 	}
 
+	/**
+	 * Removes embeds of notes excluded by the publish rules and turns links to them into plain text,
+	 * so neither their content nor their location ends up in the exported page.
+	 */
+	private removeUnpublishedContent()
+	{
+		const isUnpublished = (linktext: string | null) =>
+		{
+			if (!linktext) return false;
+			const file = app.metadataCache.getFirstLinkpathDest(getLinkpath(linktext), this.source.path);
+			return file != null && !PublishFilter.isPublished(file, this.exportOptions);
+		}
+
+		const embeds = Array.from(this.pageDocument.querySelectorAll(".internal-embed[src]")) as HTMLElement[];
+		for (const embed of embeds)
+		{
+			if (isUnpublished(embed.getAttribute("src"))) embed.remove();
+		}
+
+		const links = Array.from(this.pageDocument.querySelectorAll("a.internal-link")) as HTMLAnchorElement[];
+		for (const link of links)
+		{
+			if (!isUnpublished(link.getAttribute("data-href") ?? link.getAttribute("href"))) continue;
+			link.removeAttribute("href");
+			link.removeAttribute("data-href");
+			link.classList.add("is-unresolved");
+		}
+	}
+
 	private getAdvancedSlidesPlugin(): any | undefined
 	{
 		// @ts-ignore
@@ -1209,6 +1344,47 @@ export class Webpage extends Attachment
 		}
 	}
 
+	/**
+	 * The links to the older and newer post of the blog.
+	 */
+	private async generatePostNavigation(): Promise<HTMLElement>
+	{
+		const navEl = this.pageDocument.createElement("nav");
+		navEl.id = this.exportOptions.blogOptions.featureId;
+		navEl.classList.add("blog-post-navigation");
+
+		const posts: [BlogPost | undefined, string, string][] =
+		[
+			[this.previousPost, "blog-post-previous", i18n.settings.blog.previousPost],
+			[this.nextPost, "blog-post-next", i18n.settings.blog.nextPost],
+		];
+		for (const [post, cls, label] of posts)
+		{
+			if (!post) continue;
+			const title = (await _MarkdownRendererInternal.getTitleForFile(post.source)).title;
+			const linkEl = navEl.createEl("a", { cls: `internal-link ${cls}`, href: post.exportPath });
+			linkEl.createSpan({ cls: "blog-post-navigation-label", text: label });
+			linkEl.createSpan({ cls: "blog-post-navigation-title", text: title });
+		}
+
+		return navEl;
+	}
+
+	/**
+	 * Points tag links at the page of their tag, instead of at a search for the tag.
+	 */
+	private remapTagLinks()
+	{
+		const tagLinks = Array.from(this.pageDocument.querySelectorAll(".obsidian-document a.tag")) as HTMLAnchorElement[];
+		for (const tagLink of tagLinks)
+		{
+			const tag = tagLink.getAttribute("data-href") || tagLink.textContent || "";
+			if (TagPages.getKey(tag) == "") continue;
+			tagLink.setAttribute("href", TagPages.getTagPath(tag, this.exportOptions));
+			tagLink.classList.remove("is-unresolved");
+		}
+	}
+
 	private remapEmbedLinks()
 	{
 		const links = this.srcLinkElements;
@@ -1265,6 +1441,25 @@ export class Webpage extends Attachment
 			head += `<meta name="author" content="${this.author}">`;
 		} 
 
+		// the site feed is linked from the template, scoped feeds only from the pages they contain
+		if (this.exportOptions.rssOptions.enabled && !this.exportOptions.combineAsSingleFile)
+		{
+			head += Feeds.getAlternateLinks(Feeds.getScopedFeedsFor(this.source, this.exportOptions), this.exportOptions);
+		}
+
+		const languageOptions = this.exportOptions.languageOptions;
+		if (languageOptions.enabled && !this.exportOptions.combineAsSingleFile)
+		{
+			head += this.getAlternateLanguageLinks();
+		}
+
+		const sitemapOptions = this.exportOptions.sitemapOptions;
+		const canonicalURL = Sitemap.getURL(this.targetPath.path, this.exportOptions);
+		if (sitemapOptions.enabled && sitemapOptions.canonicalLinks && canonicalURL != "")
+		{
+			head += `<link rel="canonical" href="${canonicalURL}">`;
+		}
+
 		// Add model-viewer script for 3D models
 		head += `<script type="module" src="https://cdn.jsdelivr.net/npm/@google/model-viewer@latest/dist/model-viewer.min.js"></script>`;
 
@@ -3,7 +3,7 @@ import { FileTree } from "src/plugin/features/file-tree";
 import {  TAbstractFile, TFile, TFolder } from "obsidian";
 import {  Settings } from "src/plugin/settings/settings";
 import { Path } from "src/plugin/utils/path";
-import { ExportLog, MarkdownRendererAPI } from "src/plugin/render-api/render-api";
+import { _MarkdownRendererInternal, ExportLog, MarkdownRendererAPI } from "src/plugin/render-api/render-api";
 import { AssetLoader } from "src/plugin/asset-loaders/base-asset";
 import { AssetType, InlinePolicy, Mutability } from "src/plugin/asset-loaders/asset-types.js";
 import { ExportPipelineOptions } from "src/plugin/website/pipeline-options.js";
@@ -11,10 +11,21 @@ import { Index as WebsiteIndex } from "src/plugin/website/index";
 import { WebpageTemplate } from "./webpage-template";
 import { AssetHandler } from "src/plugin/asset-loaders/asset-handler";
 import { Webpage } from "./webpage";
-import { GraphView } from "src/plugin/features/graph-view";
-import { ThemeToggle } from "src/plugin/features/theme-toggle";
-import { SearchInput } from "src/plugin/features/search-input";
 import { Utils } from "src/plugin/utils/utils";
+import { BuildReport } from "./build-report";
+import { BrokenLink, LinkChecker } from "./link-checker";
+import { PublishFilter } from "./publish-filter";
+import { Redirects } from "./redirects";
+import { Sitemap } from "./sitemap";
+import { Feeds } from "./feeds";
+import { Languages } from "./languages";
+import { Blog } from "./blog";
+import { FolderIndex } from "./folder-index";
+import { TagPages } from "./tag-pages";
+import { ContentApi } from "./content-api";
+import { ZipArchive } from "src/plugin/utils/zip-archive";
+import { ExportHooks } from "src/plugin/export-hooks";
+import { WebsiteExportPipeline } from "./export-pipeline";
 
 
 export class Website
@@ -26,8 +37,18 @@ export class Website
 
 	public fileTree: FileTree;
 	public fileTreeAsset: AssetLoader;
+	public blog: Blog | undefined;
+	public folderIndex: FolderIndex | undefined;
 	public webpageTemplate: WebpageTemplate;
 	public exportOptions: ExportPipelineOptions;
+	public report: BuildReport;
+	public brokenLinks: BrokenLink[] = [];
+	public pipeline: WebsiteExportPipeline;
+
+	/**
+	 * Built webpages which are only saved once the link check passed, so a failing check writes nothing.
+	 */
+	private deferredDownloads: Webpage[] = [];
 
 	constructor(destination: Path | string, options?: ExportPipelineOptions)
 	{
@@ -35,6 +56,8 @@ export class Website
 		this.exportOptions = Object.assign(Settings.exportOptions, options);
 		if (!destination.isDirectoryFS) throw new Error("Website destination must be a folder: " + destination.path);
 		this.destination = destination;
+		this.report = new BuildReport(this);
+		this.pipeline = WebsiteExportPipeline.createDefault(this.exportOptions, []);
 	}
 
 	private async buildTemplate(): Promise<void>
@@ -42,40 +65,20 @@ export class Website
 		const template = this.webpageTemplate;
 		await template.loadLayout();
 			
-		// inject graph view
-		if (this.exportOptions.graphViewOptions.enabled)
-		{
-			template.insertFeature(await new GraphView().generate(), this.exportOptions.graphViewOptions);
-		}
-
-		// inject darkmode toggle
-		if (this.exportOptions.themeToggleOptions.enabled)
-		{
-			template.insertFeature(await new ThemeToggle().generate(), this.exportOptions.themeToggleOptions);
-		}
-
-		// inject search bar
-		if (this.exportOptions.searchOptions.enabled)
+		for (const feature of this.pipeline.features)
 		{
-			template.insertFeature(await new SearchInput().generate(), this.exportOptions.searchOptions);
-		}
-
-		// inject file tree
-		if (this.exportOptions.fileNavigationOptions.enabled)
-		{
-			const fileTreeElContainer = document.body.createDiv();
-			fileTreeElContainer.innerHTML = this.fileTreeAsset.getHTML(this.exportOptions);
-			const fileTreeEl = fileTreeElContainer.firstElementChild as HTMLElement;
-
-			template.insertFeature(fileTreeEl, this.exportOptions.fileNavigationOptions);
-			fileTreeElContainer.remove();
-		}
+			if (!feature.options.enabled) continue;
 
-		// inject custom head content
-		if (this.exportOptions.customHeadOptions.enabled)
-		{
-			let string = AssetHandler.customHeadContent.getHTML(this.exportOptions);
-			template.insertFeatureString(string, this.exportOptions.customHeadOptions);
+			try
+			{
+				const content = await feature.generate(this);
+				if (typeof content == "string") template.insertFeatureString(content, feature.options);
+				else if (content) template.insertFeature(content, feature.options);
+			}
+			catch (error)
+			{
+				ExportLog.error(error, "Problem inserting feature: " + feature.options.featureId);
+			}
 		}
 	}
 
@@ -117,17 +120,50 @@ export class Website
 
 	public async load(files?: TFile[]): Promise<this>
 	{
+		// collect what goes wrong while loading too, not only while building
+		this.report.begin();
 		ExportLog.resetProgress();
 		ExportLog.addToProgressCap((files?.length ?? 0));
 		ExportLog.addToProgressCap((files?.length ?? 0) * 0.1);
 
 		this.sourceFiles = files?.filter((file) => file) ?? [];
 
+		// leave out notes which the publish rules exclude, as if they had never been picked
+		const unpublished = this.sourceFiles.filter((file) => !PublishFilter.isPublished(file, this.exportOptions));
+		if (unpublished.length > 0)
+		{
+			const skipped = new Set(unpublished);
+			this.sourceFiles = this.sourceFiles.filter((file) => !skipped.has(file));
+			unpublished.forEach((file) => this.report.excludeFile(file.path));
+			ExportLog.log(unpublished.map((file) => file.path).join("\n"), `Skipping ${unpublished.length} unpublished notes`);
+		}
+
+		// other plugins may veto files too
+		const vetoed: TFile[] = [];
+		for (const file of this.sourceFiles)
+		{
+			if (!await ExportHooks.trigger("filterFile", file, this)) vetoed.push(file);
+		}
+		if (vetoed.length > 0)
+		{
+			this.sourceFiles = this.sourceFiles.filter((file) => !vetoed.includes(file));
+			vetoed.forEach((file) => this.report.excludeFile(file.path));
+			ExportLog.log(vetoed.map((file) => file.path).join("\n"), `Skipping ${vetoed.length} files left out by export hooks`);
+		}
+
 		let rootPath = this.findCommonRootPath(this.sourceFiles);
 		this.exportOptions.exportRoot = rootPath;
 		console.log("Root path: " + rootPath);
 
 		await AssetHandler.reloadAssets(this.exportOptions);
+
+		// assets of the pipeline, added after the temporary assets of the last export were dropped
+		for (const asset of this.pipeline.assets)
+		{
+			if (!AssetHandler.allAssets.includes(asset)) AssetHandler.allAssets.push(asset);
+			await asset.load();
+		}
+
 		this.index = new WebsiteIndex();
 		try
 		{
@@ -140,15 +176,18 @@ export class Website
 
 		try
 		{
-			this.webpageTemplate = new WebpageTemplate(this.exportOptions, this.index.rssURL.path);
+			this.webpageTemplate = new WebpageTemplate(this.exportOptions);
 		}
 		catch (error)
 		{
 			ExportLog.error(error, "Problem creating webpage template");
 		}
 
-		// create webpages
-		for (const file of this.sourceFiles)
+		// create webpages, attachments and then notes with a permalink go first so they keep the path they claim
+		const claimedPaths = new Map<string, string>(this.index.allFiles.map((file): [string, string] => [file.targetPath.path, file.source?.path ?? file.targetPath.path]));
+		const claimOrder = (file: TFile) => !MarkdownRendererAPI.isConvertable(file.extension) ? 0 : this.getPermalink(file) ? 1 : 2;
+		const orderedFiles = [...this.sourceFiles].sort((a, b) => claimOrder(a) - claimOrder(b));
+		for (const file of orderedFiles)
 		{
 			try
 			{
@@ -161,6 +200,9 @@ export class Website
 					const path = this.getTargetPathForFile(file);
 					let attachment = new Attachment(data, path, file, this.exportOptions);
 					attachment.showInTree = true;
+					const owner = claimedPaths.get(attachment.targetPath.path);
+					if (owner) ExportLog.error(`${file.path} and ${owner} are both exported to ${attachment.targetPath.path}.`, "URL collision");
+					else claimedPaths.set(attachment.targetPath.path, file.path);
 					await this.index.addFile(attachment);
 				}
 
@@ -169,6 +211,7 @@ export class Website
 				{
 					let webpage = new Webpage(file, file.name, this, this.exportOptions);
 					webpage.showInTree = true;
+					this.claimTargetPath(webpage, claimedPaths);
 					await this.index.addFile(webpage);
 				}
 
@@ -182,6 +225,35 @@ export class Website
 			}
 		}
 
+		this.blog = undefined;
+		if (Blog.isEnabled(this.exportOptions))
+		{
+			try
+			{
+				this.blog = new Blog(this);
+				this.blog.findPosts();
+			}
+			catch (error)
+			{
+				ExportLog.error(error, "Problem finding blog posts");
+			}
+		}
+
+		this.folderIndex = undefined;
+		if (this.exportOptions.folderIndexPages && !this.exportOptions.combineAsSingleFile)
+		{
+			try
+			{
+				this.folderIndex = new FolderIndex(this);
+				this.folderIndex.findFolders();
+			}
+			catch (error)
+			{
+				ExportLog.error(error, "Problem finding folder pages");
+			}
+		}
+
+		let fileTreeHash = "";
 		try
 		{
 			// create file tree asset
@@ -196,6 +268,15 @@ export class Website
 				this.fileTree.hideFileExtentionTags = ["md"];
 				this.fileTree.title = this.exportOptions.siteName ?? app.vault.getName();
 				this.fileTree.id = "file-explorer";
+				for (const webpage of this.index.attachmentsShownInTree)
+				{
+					if (webpage instanceof Webpage && webpage.sourcePathRootRelative && this.getPermalink(webpage.source))
+						this.fileTree.targetPathOverrides.set(webpage.sourcePathRootRelative, webpage.targetPath.path);
+				}
+				for (const [folderPath, targetPath] of this.folderIndex?.getFolderTargets() ?? [])
+				{
+					this.fileTree.folderTargetPaths.set(folderPath, targetPath);
+				}
 				const tempContainer = document.createElement("div");
 				await this.fileTree.generate(tempContainer);
 				const data = tempContainer.innerHTML;
@@ -211,6 +292,9 @@ export class Website
 
 				tempContainer.remove();
 				this.fileTreeAsset = new AssetLoader("file-tree.html", data, null, AssetType.HTML, InlinePolicy.Auto, true, Mutability.Temporary);
+
+				// the tree is only part of the pages themselves when it is inlined, otherwise it is fetched at runtime
+				if (this.exportOptions.inlineHTML) fileTreeHash = Utils.hashString(data);
 			}
 		}
 		catch (error)
@@ -218,6 +302,29 @@ export class Website
 			ExportLog.error(error, "Problem creating file tree");
 		}
 
+		if (this.exportOptions.languageOptions.enabled)
+		{
+			try
+			{
+				new Languages(this).assign();
+			}
+			catch (error)
+			{
+				ExportLog.error(error, "Problem finding the language variants of pages");
+			}
+		}
+
+		try
+		{
+			this.index.invalidateDependents(fileTreeHash);
+		}
+		catch (error)
+		{
+			ExportLog.error(error, "Problem finding pages affected by changed files");
+		}
+
+		await ExportHooks.trigger("websiteLoaded", this);
+
 		return this;
 	}
 	
@@ -233,6 +340,7 @@ export class Website
 		if (files) await this.load(files);
 
 		console.log("Creating website with files:\n" + this.sourceFiles.map(f => f.path).join("\n"));
+		this.report.begin();
 
 		await this.buildTemplate();
 		
@@ -250,6 +358,7 @@ export class Website
 
 		await MarkdownRendererAPI.beginBatch(this.exportOptions);
 		this.validateSettings();
+		this.deferredDownloads = [];
 
 		// only render the updated and new files
 		let webpages = this.index.webpages;
@@ -261,37 +370,37 @@ export class Website
 		const downloads = AssetHandler.getDownloads(this.destination, this.exportOptions);
 		this.index.addFiles(downloads);
 
-		
-		let progress = 0;
-		for (const webpage of webpages)
+		for (const attachment of this.pipeline.attachments)
 		{
-			if (ExportLog.isCancelled()) return;
+			attachment.targetPath.setWorkingDirectory(this.destination.path);
+		}
+		await this.index.addFiles(this.pipeline.attachments);
 
-			ExportLog.progress(1, "Building Webpages", webpage.source.path);
 
-			const rendered = await webpage.renderDocument();
-			if (!rendered) continue;
-			await Utils.delay(0);
-			
-			const attachments = await webpage.getAttachments();
-			await Utils.delay(0);
-			this.index.addFiles(attachments);
-			await Utils.delay(0);
-			const built = await webpage.build();
-			await Utils.delay(0);
-			if (built) await this.index.addFile(webpage);
-			else await this.index.removeFile(webpage);
-			// save the file and then dispose of the webpage
-			if (!this.exportOptions.combineAsSingleFile)
-				await webpage.download();
-			
-			if (this.exportOptions.autoDisposeWebpages)
-				webpage.dispose();
+		// render several webpages at once, one worker for each leaf in the render pool
+		let nextWebpage = 0;
+		const buildWorker = async () =>
+		{
+			while (nextWebpage < webpages.length)
+			{
+				if (ExportLog.isCancelled()) return;
 
-			progress += 1;
+				const webpage = webpages[nextWebpage++];
+				await this.buildWebpage(webpage);
+				ExportLog.progress(1, "Building Webpages", webpage.source.path);
+				await Utils.delay(0);
+			}
+		};
 
-			await Utils.delay(0);
+		const workerCount = Math.min(_MarkdownRendererInternal.renderLeafCount(), webpages.length);
+		const workers: Promise<void>[] = [];
+		for (let i = 0; i < workerCount; i++)
+		{
+			workers.push(buildWorker());
 		}
+		await Promise.all(workers);
+
+		if (ExportLog.isCancelled()) return;
 
 		// Refresh asset downloads that may be discovered during rendering (e.g., MathJax fonts).
 		const lateDownloads = AssetHandler.getDownloads(this.destination, this.exportOptions)
@@ -301,17 +410,85 @@ export class Website
 			await this.index.addFiles(lateDownloads);
 		}
 	
+		if (this.blog)
+		{
+			try
+			{
+				await this.blog.create();
+			}
+			catch (error)
+			{
+				ExportLog.error(error, "Problem creating blog pages");
+			}
+		}
+
+		if (this.folderIndex)
+		{
+			try
+			{
+				await this.folderIndex.create();
+			}
+			catch (error)
+			{
+				ExportLog.error(error, "Problem creating folder pages");
+			}
+		}
+
+		try
+		{
+			this.index.websiteData.tagPages = TagPages.isEnabled(this.exportOptions) ? await new TagPages(this).create() : {};
+		}
+		catch (error)
+		{
+			ExportLog.error(error, "Problem creating tag pages");
+		}
+
+		try
+		{
+			this.index.websiteData.redirects = Redirects.isEnabled(this.exportOptions) ? await new Redirects(this).create() : {};
+		}
+		catch (error)
+		{
+			ExportLog.error(error, "Problem creating redirects");
+		}
+
+		if (this.exportOptions.sitemapOptions.enabled)
+		{
+			try
+			{
+				await new Sitemap(this).create();
+			}
+			catch (error)
+			{
+				ExportLog.error(error, "Problem creating sitemap");
+			}
+		}
+
 		if (this.exportOptions.rssOptions.enabled)
 		{
 			try
 			{
-				this.index.createRSSFeed();
+				await new Feeds(this).create();
 			}
 			catch (error)
 			{
 				ExportLog.error(error, "Problem creating RSS feed");
 			}
 		}
+
+		if (this.exportOptions.contentApi && !this.exportOptions.combineAsSingleFile)
+		{
+			try
+			{
+				await new ContentApi(this).create();
+			}
+			catch (error)
+			{
+				ExportLog.error(error, "Problem creating the content api");
+			}
+		}
+
+		await ExportHooks.trigger("beforeFinalize", this);
 		
 		try
 		{
@@ -322,6 +499,23 @@ export class Website
 			ExportLog.error(error, "Problem finalizing index");
 		}
 
+		if (this.exportOptions.checkLinks)
+		{
+			this.brokenLinks = new LinkChecker(this).check();
+			if (this.brokenLinks.length > 0)
+			{
+				const message = `Found ${this.brokenLinks.length} broken links, missing attachments or bad anchors`;
+				if (this.exportOptions.failOnBrokenLinks) throw new Error(message);
+				ExportLog.warning(message, "Link check");
+			}
+		}
+
+		for (const webpage of this.deferredDownloads)
+		{
+			await webpage.download();
+		}
+		this.deferredDownloads = [];
+
 		console.log(this);
 
 		// this.refreshUpdatedFilesList();
@@ -330,6 +524,58 @@ export class Website
 		return this;
 	}
 
+	/**
+	 * Renders and builds a single webpage, adds it and its attachments to the index and saves it.
+	 */
+	private async buildWebpage(webpage: Webpage)
+	{
+		this.report.startFile(webpage.source.path);
+		try
+		{
+			await this.renderAndSaveWebpage(webpage);
+		}
+		finally
+		{
+			this.report.endFile(webpage.source.path);
+		}
+	}
+
+	private async renderAndSaveWebpage(webpage: Webpage)
+	{
+		const rendered = await webpage.renderDocument();
+		if (!rendered) return;
+		if (!await ExportHooks.trigger("documentRendered", webpage))
+		{
+			await this.index.removeFile(webpage);
+			return;
+		}
+		await Utils.delay(0);
+		
+		const attachments = await webpage.getAttachments();
+		await Utils.delay(0);
+		this.index.addFiles(attachments);
+		await Utils.delay(0);
+		const built = await webpage.build();
+		await Utils.delay(0);
+		if (!built)
+		{
+			// a webpageBuilt hook left the page out of the export
+			await this.index.removeFile(webpage);
+			return;
+		}
+
+		await this.index.addFile(webpage);
+		// save the file and then dispose of the webpage
+		if (!this.exportOptions.combineAsSingleFile && !this.exportOptions.zipOutput)
+		{
+			if (this.exportOptions.checkLinks && this.exportOptions.failOnBrokenLinks) this.deferredDownloads.push(webpage);
+			else await webpage.download();
+		}
+		
+		if (this.exportOptions.autoDisposeWebpages)
+			webpage.dispose();
+	}
+
 	/** 
 	 * Display updated files on the render window
 	 * */ 
@@ -425,13 +671,78 @@ export class Website
 
 	public getTargetPathForFile(file: TFile, filename?: string): Path
 	{
-		const targetPath = new Path(file.path);
+		let targetPath = new Path(file.path);
 		if (filename) targetPath.fullName = filename;
+
+		const permalink = this.getPermalink(file);
+		const slug = this.getSlug(file);
+		if (permalink)
+		{
+			targetPath = new Path(permalink);
+			if (targetPath.extensionName == "") targetPath.setExtension("html");
+		}
+		else if (slug)
+		{
+			targetPath.setFileName(slug);
+		}
+
 		targetPath.setWorkingDirectory((this.destination ?? Path.vaultPath.joinString("Web Export")).path);
 		targetPath.slugify(this.exportOptions.slugifyPaths);
 		return targetPath;
 	}
 
+	/**
+	 * Makes sure no webpage is written to the same path as another webpage or an attachment.
+	 * The later webpage gets a numbered path instead, and the collision is reported as an error.
+	 * Generated pages check the paths of all files in the index themselves.
+	 */
+	private claimTargetPath(webpage: Webpage, claimedPaths: Map<string, string>)
+	{
+		const wanted = webpage.targetPath.path;
+		const owner = claimedPaths.get(wanted);
+		if (owner)
+		{
+			let unique = webpage.targetPath.copy;
+			for (let i = 2; claimedPaths.has(unique.path); i++)
+			{
+				unique = webpage.targetPath.copy.setFileName(`${webpage.targetPath.basename}-${i}`);
+			}
+
+			ExportLog.error(`${webpage.source.path} and ${owner} are both exported to ${wanted}. ${webpage.source.path} is exported to ${unique.path} instead.`, "URL collision");
+			webpage.targetPath = unique;
+		}
+
+		claimedPaths.set(webpage.targetPath.path, webpage.source.path);
+	}
+
+	/**
+	 * The output path a note claims with its permalink property, relative to the root of the site.
+	 * A permalink ending in a slash becomes the index.html of that folder.
+	 */
+	public getPermalink(file: TFile): string | undefined
+	{
+		const value = app.metadataCache.getFileCache(file)?.frontmatter?.[Settings.permalinkProperty];
+		if (typeof value != "string" || value.trim() == "") return undefined;
+
+		// never let a permalink point outside of the export folder
+		const permalink = value.trim().replaceAll("\\", "/");
+		const segments = permalink.split("/").filter((segment) => segment != "" && segment != "." && segment != "..");
+		if (segments.length == 0 || permalink.endsWith("/")) segments.push("index.html");
+		return segments.join("/");
+	}
+
+	/**
+	 * The file name a note sets with its slug property, the note keeps its folder.
+	 */
+	public getSlug(file: TFile): string | undefined
+	{
+		const value = app.metadataCache.getFileCache(file)?.frontmatter?.[Settings.slugProperty];
+		if (typeof value != "string" && typeof value != "number") return undefined;
+
+		const slug = String(value).trim().replaceAll("/", "-").replaceAll("\\", "-");
+		return slug == "" ? undefined : slug;
+	}
+
 	public async createAttachmentFromSrc(src: string, sourceFile: TFile): Promise<Attachment | undefined>
 	{
 		const attachedFile = this.getFilePathFromSrc(src, sourceFile.path);
@@ -513,6 +824,23 @@ export class Website
 		return new Path(pathString);
 	}
 
+	/**
+	 * Reads the rendered document of an exported page, without its scripts and interactive controls.
+	 * Links in it are relative to the site root.
+	 */
+	public async readPageContent(sourcePath: string, exportPath: string): Promise<Element | undefined>
+	{
+		// pages rendered in this export are still in memory, which is the only place they are when exporting as a zip archive
+		const rendered = this.index.getWebpage(sourcePath)?.data?.toString();
+		const html = rendered || await this.destination.joinString(exportPath).readAsString();
+		if (!html) return undefined;
+
+		const doc = new DOMParser().parseFromString(html, "text/html");
+		const contentEl = doc.querySelector(".markdown-preview-sizer") ?? doc.querySelector(".obsidian-document");
+		contentEl?.querySelectorAll("script, style, .collapse-indicator, .copy-code-button").forEach((el) => el.remove());
+		return contentEl ?? undefined;
+	}
+
 	public async getCombinedHTML(): Promise<string>
 	{
 		// get index.html
@@ -572,4 +900,41 @@ export class Website
 		const path = this.destination.joinString(this.exportOptions.siteName + ".html");
 		await path.write(html);
 	}
+
+	/**
+	 * Writes the whole website, or the combined single file, into one zip archive in the destination.
+	 * @param extraFiles Files written after building, like the metadata and the build report.
+	 * @returns The path of the archive.
+	 */
+	public async saveAsZip(extraFiles: Attachment[] = []): Promise<Path>
+	{
+		const zip = new ZipArchive();
+		const name = this.exportOptions.siteName || app.vault.getName();
+
+		if (this.exportOptions.combineAsSingleFile)
+		{
+			zip.addFile(name + ".html", await this.getCombinedHTML());
+		}
+		else
+		{
+			for (const file of this.index.allFiles)
+			{
+				// webpages which failed to build have no content
+				if (file instanceof Webpage && !file.data) continue;
+				if (!await ExportHooks.trigger("beforeDownload", file)) continue;
+				zip.addFile(file.targetPath.path, file.data, file.source ? new Date(file.source.stat.mtime) : new Date());
+			}
+		}
+
+		for (const file of extraFiles)
+		{
+			if (!await ExportHooks.trigger("beforeDownload", file)) continue;
+			zip.addFile(file.targetPath.path, file.data);
+		}
+
+		const path = this.destination.joinString(name + ".zip");
+		ExportLog.progress(0, "Saving zip archive", `${zip.fileCount} files`, "var(--color-green)");
+		if (!await path.write(zip.toBuffer())) throw new Error("Could not write zip archive: " + path.path);
+		return path;
+	}
 }
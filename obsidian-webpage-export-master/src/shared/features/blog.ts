@@ -0,0 +1,49 @@
+import { i18n } from "src/plugin/translations/language";
+import { FeatureRelation, FeatureSettingInfo, InsertedFeatureOptions, RelationType } from "./feature-options-base";
+
+/**
+ * Options for running a blog from a folder of the vault.
+ * The placement is where the links to the previous and next post are inserted into each post.
+ */
+export class BlogOptions extends InsertedFeatureOptions
+{
+	folder: string = 'Blog';
+	postsPerPage: number = 10;
+	yearlyArchives: boolean = true;
+	monthlyArchives: boolean = true;
+	postNavigation: boolean = true;
+
+	info_folder = new FeatureSettingInfo({
+		show: true,
+		description: i18n.settings.blog.info_folder,
+		placeholder: "Blog"
+	});
+
+	info_postsPerPage = new FeatureSettingInfo({
+		show: true,
+		description: i18n.settings.blog.info_postsPerPage
+	});
+
+	info_yearlyArchives = new FeatureSettingInfo({
+		show: true,
+		description: i18n.settings.blog.info_yearlyArchives
+	});
+
+	info_monthlyArchives = new FeatureSettingInfo({
+		show: true,
+		description: i18n.settings.blog.info_monthlyArchives
+	});
+
+	info_postNavigation = new FeatureSettingInfo({
+		show: true,
+		description: i18n.settings.blog.info_postNavigation
+	});
+
+	constructor()
+	{
+		super();
+		this.featureId = "blog-navigation";
+		this.enabled = false;
+		this.featurePlacement = new FeatureRelation(".obsidian-document .footer", RelationType.Before);
+	}
+}
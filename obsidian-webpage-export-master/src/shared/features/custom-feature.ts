@@ -0,0 +1,32 @@
+import { FeatureRelation, FeatureSettingInfo, InsertedFeatureOptionsWithTitle, RelationType } from "./feature-options-base";
+import { i18n } from "src/plugin/translations/language";
+
+/**
+ * A feature defined by the user, showing the content of an .html or .md file from the vault on every page.
+ */
+export class CustomFeatureOptions extends InsertedFeatureOptionsWithTitle
+{
+	sourcePath: string = "";
+	info_sourcePath = new FeatureSettingInfo(
+	{
+		show: true,
+		description: i18n.settings.customFeatures.info_sourcePath,
+		fileInputOptions: {
+			makeRelativeToVault: true,
+			validation: (path: string) => {
+				let isEmpty = (path || "").length === 0;
+				let valid = path.endsWith(".html") || path.endsWith(".md") || isEmpty;
+				return {valid: valid, isEmpty: isEmpty, error: !valid ? i18n.settings.customFeatures.validationError : ""};
+			},
+			browseButton: true
+		}
+	});
+
+	constructor(featureId?: string)
+	{
+		super();
+		this.featureId = featureId ?? "custom-feature";
+		this.featurePlacement = new FeatureRelation("#right-sidebar-content", RelationType.End);
+		this.displayTitle = "";
+	}
+}
@@ -0,0 +1,72 @@
+import { i18n } from "src/plugin/translations/language";
+import { FeatureRelation, FeatureSettingInfo, InsertedFeatureOptionsWithTitle, RelationType } from "./feature-options-base";
+
+/**
+ * Options for sites with the same notes in several languages.
+ * Language variants of a note are found by a language suffix in the file name, like Guide.zh.md next to Guide.md, or by a shared translation key property.
+ */
+export class LanguageOptions extends InsertedFeatureOptionsWithTitle
+{
+	languageProperty: string = 'lang';
+	translationKeyProperty: string = 'translationKey';
+	defaultLanguage: string = 'en';
+	languageNames: string = '';
+	filterFileTree: boolean = true;
+	filterSearch: boolean = true;
+
+	info_languageProperty = new FeatureSettingInfo({
+		show: true,
+		description: i18n.settings.languages.info_languageProperty
+	});
+
+	info_translationKeyProperty = new FeatureSettingInfo({
+		show: true,
+		description: i18n.settings.languages.info_translationKeyProperty
+	});
+
+	info_defaultLanguage = new FeatureSettingInfo({
+		show: true,
+		description: i18n.settings.languages.info_defaultLanguage,
+		placeholder: "en"
+	});
+
+	info_languageNames = new FeatureSettingInfo({
+		show: true,
+		description: i18n.settings.languages.info_languageNames,
+		placeholder: "en: English, zh: 中文"
+	});
+
+	info_filterFileTree = new FeatureSettingInfo({
+		show: true,
+		description: i18n.settings.languages.info_filterFileTree
+	});
+
+	info_filterSearch = new FeatureSettingInfo({
+		show: true,
+		description: i18n.settings.languages.info_filterSearch
+	});
+
+	constructor()
+	{
+		super();
+		this.featureId = "language-switcher";
+		this.displayTitle = "";
+		this.enabled = false;
+		this.featurePlacement = new FeatureRelation("#global-topbar-right-content", RelationType.Start);
+	}
+
+	/**
+	 * The display name of a language code, from the language names option, or the code itself.
+	 */
+	public getLanguageName(language: string): string
+	{
+		for (const entry of this.languageNames.split(","))
+		{
+			const separator = entry.indexOf(":");
+			if (separator < 0) continue;
+			if (entry.substring(0, separator).trim() == language) return entry.substring(separator + 1).trim();
+		}
+
+		return language;
+	}
+}
@@ -5,6 +5,14 @@ export class RssOptions extends FeatureOptions
 {
 	siteUrl: string = '';
 	authorName: string = '';
+	atomFeed: boolean = false;
+	jsonFeed: boolean = false;
+	scopedFeeds: string = '';
+	fullContent: boolean = false;
+	maxItems: number = 0;
+	sortByDate: boolean = true;
+	excludeUndated: boolean = false;
+	excludeFolders: string = '';
 
 	info_siteUrl = new FeatureSettingInfo({
 		show: true,
@@ -17,6 +25,48 @@ export class RssOptions extends FeatureOptions
 		description: i18n.settings.rss.info_authorName
 	});
 
+	info_atomFeed = new FeatureSettingInfo({
+		show: true,
+		description: i18n.settings.rss.info_atomFeed
+	});
+
+	info_jsonFeed = new FeatureSettingInfo({
+		show: true,
+		description: i18n.settings.rss.info_jsonFeed
+	});
+
+	info_scopedFeeds = new FeatureSettingInfo({
+		show: true,
+		description: i18n.settings.rss.info_scopedFeeds,
+		placeholder: "Blog/, #news, type: post"
+	});
+
+	info_fullContent = new FeatureSettingInfo({
+		show: true,
+		description: i18n.settings.rss.info_fullContent
+	});
+
+	info_maxItems = new FeatureSettingInfo({
+		show: true,
+		description: i18n.settings.rss.info_maxItems
+	});
+
+	info_sortByDate = new FeatureSettingInfo({
+		show: true,
+		description: i18n.settings.rss.info_sortByDate
+	});
+
+	info_excludeUndated = new FeatureSettingInfo({
+		show: true,
+		description: i18n.settings.rss.info_excludeUndated
+	});
+
+	info_excludeFolders = new FeatureSettingInfo({
+		show: true,
+		description: i18n.settings.rss.info_excludeFolders,
+		placeholder: "Templates/, Private/"
+	});
+
 	constructor()
 	{
 		super();
@@ -0,0 +1,38 @@
+import { i18n } from "src/plugin/translations/language";
+import { FeatureOptions, FeatureSettingInfo } from "./feature-options-base";
+
+export class SitemapOptions extends FeatureOptions
+{
+	unlistedProperty: string = 'unlisted';
+	canonicalLinks: boolean = true;
+	robotsTxt: boolean = true;
+	robotsDisallow: string = '';
+
+	info_unlistedProperty = new FeatureSettingInfo({
+		show: true,
+		description: i18n.settings.sitemap.info_unlistedProperty
+	});
+
+	info_canonicalLinks = new FeatureSettingInfo({
+		show: true,
+		description: i18n.settings.sitemap.info_canonicalLinks
+	});
+
+	info_robotsTxt = new FeatureSettingInfo({
+		show: true,
+		description: i18n.settings.sitemap.info_robotsTxt
+	});
+
+	info_robotsDisallow = new FeatureSettingInfo({
+		show: true,
+		description: i18n.settings.sitemap.info_robotsDisallow,
+		placeholder: "private/, drafts/"
+	});
+
+	constructor()
+	{
+		super();
+		this.featureId = "sitemap";
+		this.enabled = false;
+	}
+}
@@ -9,6 +9,7 @@ import {
 export class TagsOptions extends InsertedFeatureOptionsWithTitle {
 	showInlineTags: boolean = true;
 	showFrontmatterTags: boolean = true;
+	tagPages: boolean = false;
 	info_showInlineTags: FeatureSettingInfo = new FeatureSettingInfo({
 		show: true,
 		description: i18n.settings.tags.info_showInlineTags,
@@ -17,6 +18,10 @@ export class TagsOptions extends InsertedFeatureOptionsWithTitle {
 		show: true,
 		description: i18n.settings.tags.info_showFrontmatterTags,
 	});
+	info_tagPages: FeatureSettingInfo = new FeatureSettingInfo({
+		show: true,
+		description: i18n.settings.tags.info_tagPages,
+	});
 
 	constructor() {
 		super();
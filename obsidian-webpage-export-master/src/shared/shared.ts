@@ -9,4 +9,6 @@ export class Shared
 	public static htmlFolderName: string = "html";
 	public static metadataFileName: string = "metadata.json";
 	public static searchIndexFileName: string = "search-index.json";
+	public static buildReportFileName: string = "build-report.json";
+	public static buildReportHTMLFileName: string = "build-report.html";
 }
@@ -8,6 +8,8 @@ import { LinkPreviewOptions } from "./features/link-preview";
 import { OutlineOptions } from "./features/outline";
 import { PropertiesOptions } from "./features/properties";
 import { RssOptions } from "./features/rss";
+import { SitemapOptions } from "./features/sitemap";
+import { LanguageOptions } from "./features/languages";
 import { SearchOptions } from "./features/search";
 import { SidebarOptions } from "./features/sidebar";
 import { TagsOptions } from "./features/tags";
@@ -46,6 +48,26 @@ export interface FileData
 	data: string | null;
 }
 
+/**
+ * Options a note overrides for its own page through its frontmatter.
+ * Unset values fall back to the site wide options.
+ */
+export interface PageOverrides
+{
+	hideLeftSidebar?: boolean;
+	hideRightSidebar?: boolean;
+	graphView?: boolean;
+	outline?: boolean;
+	backlinks?: boolean;
+	documentWidth?: string;
+
+	// a name added to the body as a layout-* class, for css snippets to style the page by
+	layout?: string;
+
+	// the theme shown until the visitor picks one
+	theme?: "light" | "dark";
+}
+
 export interface WebpageData extends FileData
 {
 	headers: {heading: string, level: number, id: string}[];
@@ -55,6 +77,19 @@ export interface WebpageData extends FileData
 	links: string[];
 	attachments: string[];
 
+	// vault paths of the files this page depends on, used to rebuild it when they change
+	embeddedFiles: string[];
+	linkedFiles: string[];
+	overrides?: PageOverrides;
+
+	// the language of the page and the export paths of its variants by language, if it has any
+	language?: string;
+	translations?: {[language: string]: string};
+
+	// the export paths of the older and newer post, if the page is a blog post
+	previousPost?: string;
+	nextPost?: string;
+
 	title: string;
 	pathToRoot: string;
 	icon: string;
@@ -131,6 +166,16 @@ export class WebsiteOptions
 	 */
 	rss: RssOptions;
 
+	/**
+	 * Sitemap options
+	 */
+	sitemap: SitemapOptions;
+
+	/**
+	 * Language variant options
+	 */
+	languages: LanguageOptions;
+
 	/**
 	 * The options for the link preview feature.
 	 */
@@ -152,6 +197,8 @@ export class WebsiteOptions
 		data.customHead = Object.assign(new CustomHeadOptions(), data.customHead);
 		data.document = Object.assign(new DocumentOptions(), data.document);
 		data.rss = Object.assign(new RssOptions(), data.rss);
+		data.sitemap = Object.assign(new SitemapOptions(), data.sitemap);
+		data.languages = Object.assign(new LanguageOptions(), data.languages);
 		data.linkPreview = Object.assign(new LinkPreviewOptions(), data.linkPreview);
 
 		return data;
@@ -164,9 +211,18 @@ export class WebsiteData
 	webpages: {[targetPath: string]: WebpageData} = {};
 	fileInfo: {[targetPath: string]: FileData} = {};
 	sourceToTarget: {[sourcePath: string]: string} = {};
+	/**
+	 * Old export paths of moved pages mapped to their current export path.
+	 */
+	redirects: {[fromPath: string]: string} = {};
+	/**
+	 * The export path of each tag's page, by the tag in lower case without its #.
+	 */
+	tagPages: {[tag: string]: string} = {};
 	attachments: string[] = [];
 	shownInTree: string[] = [];
 	allFiles: string[] = [];
+	fileTreeHash: string = "";
 
 	siteName: string = "";
 	vaultName: string = "";